@@ -1,21 +1,95 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Chat } from '@google/genai';
-import { createChatSession, sendMessageToGemini, generateImageWithCloudflare } from './services/geminiService';
+import { fetchUsageReport, requestImage } from './services/geminiService';
+import { storyteller } from './services/storyteller';
+import { listSaves, loadGame, saveGame, deleteSave } from './services/saveService';
+import { createInitialGameState, applyStateDelta, formatMessageWithState } from './services/gameState';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { BUILT_IN_CAMPAIGNS, DEFAULT_CAMPAIGN, getCampaignImageSeed, loadCustomCampaigns, saveCustomCampaign, deleteCustomCampaign, parseCampaignImport } from './services/campaignService';
+import { createEmptyCharacter, normalizeCharacter, applyAppearanceToImagePrompt } from './services/characterService';
+import { createTimeline, createTurnNode, addTurnNode, addSceneImage, keepSceneImage, getSceneImages, getTimelinePath, getTurnText, buildTranscript, formatAction, timelineFromTurns } from './services/timeline';
+import { createEmptyMemory, applyCodexUpdates, keepPlayerEdits, needsCompaction, compactMemory } from './services/memory';
+import { exportStorybook } from './services/storybookService';
+import { downloadBlob } from './services/download';
+import { buildSystemInstruction, formatNarratorReply } from './services/narrator';
+import { createDiceSeed, describeCheck, formatCheckResultMessage, rollCheck, DEFAULT_RULE_SYSTEM } from './services/rules';
+import { ContentBlockedError, GameError, ImageGenerationError, toGameError } from './services/errors';
+import { changedByModeration, checkWithRules, describeCategories, describeModeration, moderateImagePrompt, moderatePlayerInput, moderateTurn } from './services/moderation';
+import { addTurnUsage, summarizeAdventureUsage } from './services/usage';
+import { isSpeechSynthesisSupported, listNarrationVoices, narration, pickNarrationVoice } from './services/voice';
+import { connectToRoom, loadRoomCredentials, type RoomConnection, type RoomEntry, type RoomMembership } from './services/multiplayer';
+import type { Campaign, CodexEntry, GameAIResponse, GameSettings, GameState, ImageGenerationParams, ImageJob, ImageJobStatus, ModerationDecision, NarrationVoice, PlayerCharacter, RoomState, SavedGame, SaveSlotSummary, SceneImage, SharedStory, Storybook, StorybookFormat, StorybookOptions, StorytellerSession, StoryMemory, StoryTimeline, TurnCheck, UsageReport } from './types';
 import LoadingSpinner from './components/LoadingSpinner';
 import ErrorMessage from './components/ErrorMessage';
+import SaveLoadMenu from './components/SaveLoadMenu';
+import CharacterPanel from './components/CharacterPanel';
+import SuggestedActions from './components/SuggestedActions';
+import SettingsPanel from './components/SettingsPanel';
+import CampaignSetup from './components/CampaignSetup';
+import CharacterCreation from './components/CharacterCreation';
+import TimelineView from './components/TimelineView';
+import StorybookExport from './components/StorybookExport';
+import CodexPanel from './components/CodexPanel';
+import SceneFilmstrip from './components/SceneFilmstrip';
+import ImageViewer from './components/ImageViewer';
+import RoomForm from './components/RoomForm';
+import RoomPanel from './components/RoomPanel';
+import SharedAdventureView from './components/SharedAdventureView';
+import UsagePanel from './components/UsagePanel';
+import ModerationLog from './components/ModerationLog';
+import PushToTalkButton from './components/PushToTalkButton';
 
 const App: React.FC = () => {
   const [gameStarted, setGameStarted] = useState<boolean>(false);
   const [currentSceneDescription, setCurrentSceneDescription] = useState<string>('');
-  const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
   const [playerAction, setPlayerAction] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<GameError | null>(null);
+  const [retryFailedStep, setRetryFailedStep] = useState<(() => void) | null>(null); // Offered by the error panel
   const [loadingMessage, setLoadingMessage] = useState<string>('');
+  const [timeline, setTimeline] = useState<StoryTimeline>(createTimeline);
+  const [saveSlots, setSaveSlots] = useState<SaveSlotSummary[]>([]);
+  const [activeSaveId, setActiveSaveId] = useState<string | null>(null);
+  const [saveName, setSaveName] = useState<string>('');
+  const [saveStatus, setSaveStatus] = useState<string>('');
+  const [gameState, setGameState] = useState<GameState>(createInitialGameState);
+  const [stateNotice, setStateNotice] = useState<string>('');
+  const [settings, setSettings] = useState<GameSettings>(loadSettings);
+  const [streamingSceneText, setStreamingSceneText] = useState<string>('');
+  // The turn in play that the transcript doesn't hold yet: its action and any roll, or a failed turn's silence
+  const [pendingTurnText, setPendingTurnText] = useState<string>('');
+  const [campaign, setCampaign] = useState<Campaign>(DEFAULT_CAMPAIGN);
+  const [customCampaigns, setCustomCampaigns] = useState<Campaign[]>(loadCustomCampaigns);
+  const [character, setCharacter] = useState<PlayerCharacter>(createEmptyCharacter);
+  const [memory, setMemory] = useState<StoryMemory>(createEmptyMemory);
+  const [diceSeed, setDiceSeed] = useState<number>(createDiceSeed); // Every skill check of the game is rolled from this
+  const [adventureId, setAdventureId] = useState<string>(() => crypto.randomUUID()); // The proxy meters the game's usage under this, whichever session plays it
+  const [viewedTurnId, setViewedTurnId] = useState<string | null>(null); // Picked from the filmstrip; null follows the latest scene
+  const [viewerTurnId, setViewerTurnId] = useState<string | null>(null); // Turn open in the full-screen viewer
+  const [regeneratingTurnId, setRegeneratingTurnId] = useState<string | null>(null);
+  const [imageStatuses, setImageStatuses] = useState<Record<string, ImageJobStatus>>({}); // Scene artwork progress by turn id
+  const [room, setRoom] = useState<RoomState | null>(null); // The shared adventure this browser is in, if any
+  const [roomMembership, setRoomMembership] = useState<RoomMembership | null>(null);
+  const [roomConnected, setRoomConnected] = useState<boolean>(false);
+  const [roomNotice, setRoomNotice] = useState<string>('');
+  const [sharedStory, setSharedStory] = useState<SharedStory | null>(null); // Guests only: the host's story as last shared
+  const [pendingRoundAction, setPendingRoundAction] = useState<string | null>(null); // Hosts only: a closed round waiting to be narrated
+  const [usageReport, setUsageReport] = useState<UsageReport | null>(null); // The proxy's usage today, refreshed every turn
+  const [inputChecks, setInputChecks] = useState<ModerationDecision[]>([]); // Checks that no turn records: blocked actions and new pictures' prompts
+  const [narrationVoices, setNarrationVoices] = useState<NarrationVoice[]>([]);
+  const [isNarrating, setIsNarrating] = useState<boolean>(false);
+  const [narrationNotice, setNarrationNotice] = useState<string>('');
+  const [spokenAction, setSpokenAction] = useState<string | null>(null); // Heard by push-to-talk, waiting to be submitted
 
-  const chatRef = useRef<Chat | null>(null);
+  const sessionRef = useRef<StorytellerSession | null>(null);
+  const imageJobsRef = useRef<Map<string, { job: ImageJob<SceneImage | null>; status: ImageJobStatus }>>(new Map()); // Scene artwork still being generated
   const sceneDescriptionRef = useRef<HTMLDivElement>(null); // For scrolling
+  const roomRef = useRef<RoomConnection | null>(null);
+  const actionFormRef = useRef<HTMLFormElement>(null);
+  const sharedTranscriptRef = useRef<string>(''); // Guests only: the part of the host's story already read aloud
+
+  // The branch being played, from the opening scene to the current turn
+  const turns = getTimelinePath(timeline, timeline.currentId);
 
   const scrollToBottom = () => {
     sceneDescriptionRef.current?.scrollTo({
@@ -25,101 +99,759 @@ const App: React.FC = () => {
   };
 
   useEffect(() => {
-    if (currentSceneDescription) {
+    if (currentSceneDescription || pendingTurnText || streamingSceneText) {
         scrollToBottom();
     }
-  }, [currentSceneDescription]);
+  }, [currentSceneDescription, pendingTurnText, streamingSceneText]);
+
+  const handleSettingsChange = (next: GameSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const refreshSaveSlots = useCallback(async () => {
+    try {
+      setSaveSlots(await listSaves());
+    } catch (err) {
+      // Saves are optional - the game is still playable without them
+      console.error("Error listing saved games:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!gameStarted) {
+      refreshSaveSlots();
+    }
+  }, [gameStarted, refreshSaveSlots]);
+
+  // The server's usage report changes with every turn played
+  const turnCount = Object.keys(timeline.nodes).length;
+  useEffect(() => {
+    if (!gameStarted) return;
+    fetchUsageReport()
+      .then(setUsageReport)
+      .catch(err => {
+        // The usage report is informational - the game plays on without it
+        console.warn("Could not load the usage report:", err);
+        setUsageReport(null);
+      });
+  }, [gameStarted, turnCount]);
+
+  // A guest who reloaded the page goes straight back into their shared adventure
+  useEffect(() => {
+    const credentials = loadRoomCredentials();
+    if (credentials) {
+      enterRoom({ type: 'rejoin', ...credentials });
+    }
+    return () => roomRef.current?.close();
+  }, []);
+
+  // Applies the narrator's proposed state changes, rejecting the whole delta if any part is invalid
+  const applyTurnState = (baseState: GameState, response: GameAIResponse): GameState => {
+    const result = applyStateDelta(baseState, response.stateDelta);
+    if (result.errors.length > 0) {
+      console.warn("Rejected invalid state delta from narrator:", result.errors, response.stateDelta);
+      setStateNotice(`The narrator proposed an impossible change, so it was ignored: ${result.errors.join('; ')}.`);
+    } else {
+      setStateNotice('');
+    }
+    setGameState(result.state);
+    return result.state;
+  };
+
+  // Adds the turn's codex updates to the narrator's memory
+  const applyTurnMemory = (baseMemory: StoryMemory, response: GameAIResponse): StoryMemory => {
+    const turnMemory = { ...baseMemory, codex: applyCodexUpdates(baseMemory.codex, response.codexUpdates) };
+    setMemory(turnMemory);
+    return turnMemory;
+  };
+
+  // Records a finished turn as a child of the current one, snapshotting what is needed to rewind to it later
+  const recordTurn = (turnId: string, parentId: string | null, action: string | null, response: GameAIResponse, state: GameState, turnMemory: StoryMemory, session: StorytellerSession, check?: TurnCheck) => {
+    const node = { ...createTurnNode(turnId, parentId, action, response, state, session.getHistory()), memory: turnMemory, check };
+    setTimeline(prev => addTurnNode(prev, node));
+    setViewedTurnId(null);
+  };
+
+  // Once the history gets long, older turns are summarised and the session is rebuilt with the summary, codex and recent turns
+  const compactMemoryIfNeeded = async (session: StorytellerSession, turnMemory: StoryMemory) => {
+    const history = session.getHistory();
+    if (!needsCompaction(history)) return;
+    try {
+      const compacted = await compactMemory(session, turnMemory, history);
+      setMemory(compacted.memory);
+      sessionRef.current = storyteller.createSession(buildSystemInstruction(campaign, character, compacted.memory), compacted.history, adventureId);
+    } catch (err) {
+      // The full history still works, just more slowly - try again after the next turn
+      console.warn("Could not summarise older turns:", err);
+    }
+  };
 
-  const handleGenericError = (err: unknown, context: string) => {
+  // Attaches generated artwork to its turn so it is captured in saves
+  const setTurnImage = (turnId: string, image: SceneImage | null) => {
+    if (image) {
+      setTimeline(prev => addSceneImage(prev, turnId, image, true));
+    }
+  };
+
+  // The error panel offers what fits the kind of error; `retry` runs the failed step again
+  const handleGenericError = (err: unknown, context: string, retry?: () => void) => {
     console.error(`Error ${context}:`, err);
     setLoadingMessage(''); // Clear loading message on error
-    if (err instanceof Error) {
-      if (err.message.startsWith("RateLimitError:")) {
-        setError(`You've exceeded your current API usage quota. Please check your plan and billing details, or try again later. For more information, visit https://ai.google.dev/gemini-api/docs/rate-limits.`);
-      } else if (err.message.includes("Invalid API Key")) {
-        setError("Invalid API Key. Please ensure your API_KEY is correctly configured in the environment variables and that the key is valid.");
-      } else if (err.message.includes("overloaded") || err.message.includes("UNAVAILABLE")) {
-        setError("The AI service is currently experiencing high traffic. We automatically retry failed requests, but if this persists, please try again in a few minutes.");
-      } else {
-        setError(`An error occurred: ${err.message}`);
+    setError(toGameError(err, `An unknown error occurred while ${context.toLowerCase()}.`));
+    setRetryFailedStep(() => retry ?? null);
+  };
+
+  const showErrorMessage = (message: string) => {
+    setError(new GameError('unknown', message));
+    setRetryFailedStep(null);
+  };
+
+  const illustrate = (params: ImageGenerationParams, onStatus?: (status: ImageJobStatus) => void): ImageJob<SceneImage | null> => {
+    const requestedAt = Date.now();
+    const job = requestImage(params, onStatus);
+    return {
+      result: job.result.then(url => url ? { id: crypto.randomUUID(), url, params, createdAt: Date.now(), waitMs: Date.now() - requestedAt } : null),
+      cancel: job.cancel,
+    };
+  };
+
+  const setImageStatus = (turnId: string, status: ImageJobStatus) => {
+    setImageStatuses(prev => ({ ...prev, [turnId]: status }));
+  };
+
+  // Queues a turn's artwork in the campaign's art style, with the hero drawn the way the player described them
+  const startSceneImage = (turnId: string, imagePrompt: string): ImageJob<SceneImage | null> | null => {
+    if (settings.textOnly) return null;
+
+    // The hero's appearance is the player's own text, so the finished prompt is checked again
+    const { prompt } = moderateImagePrompt(applyAppearanceToImagePrompt(imagePrompt, character), campaign.contentRating);
+    const params = { prompt, style: campaign.artStyle, seed: getCampaignImageSeed(campaign) };
+    const job = illustrate(params, status => {
+      const tracked = imageJobsRef.current.get(turnId);
+      // Ignore a replaced job reporting its cancellation
+      if (tracked?.job === job) {
+        tracked.status = status;
+        setImageStatus(turnId, status);
       }
-    } else {
-      setError(`An unknown error occurred while ${context.toLowerCase()}.`);
+    });
+    imageJobsRef.current.get(turnId)?.job.cancel();
+    imageJobsRef.current.set(turnId, { job, status: 'queued' });
+    setImageStatus(turnId, 'queued');
+    return job;
+  };
+
+  // Drops artwork nobody is waiting for any more: by default only images still queued behind newer ones
+  const cancelStaleImages = (includeRunning = false) => {
+    for (const [turnId, tracked] of imageJobsRef.current) {
+      if (includeRunning || tracked.status === 'queued') {
+        tracked.job.cancel();
+        imageJobsRef.current.delete(turnId);
+      }
+    }
+  };
+
+  // Attaches the artwork to its turn once it is ready; a failed image leaves a placeholder rather than an error
+  const collectSceneImage = async (turnId: string, job: ImageJob<SceneImage | null>) => {
+    try {
+      const image = await job.result;
+      setTurnImage(turnId, image);
+      setImageStatus(turnId, image ? 'succeeded' : 'cancelled');
+    } catch (err) {
+      console.warn("Scene artwork failed:", err);
+      setImageStatus(turnId, 'failed');
+    } finally {
+      if (imageJobsRef.current.get(turnId)?.job === job) {
+        imageJobsRef.current.delete(turnId);
+      }
+    }
+  };
+
+  /**
+   * Streams a turn into the scene panel and queues the artwork as soon as its image prompt is complete. The finished
+   * turn is moderated before it is used; text the rules catch while streaming is never shown. With strict moderation
+   * the model only judges the finished turn, so until then nothing is shown and no artwork is started.
+   */
+  const streamTurn = async (session: StorytellerSession, message: string, turnId: string) => {
+    const earlyImage: { current: { prompt: string; job: ImageJob<SceneImage | null> | null } | null } = { current: null };
+    const rating = campaign.contentRating;
+    const holdBack = settings.modelModeration;
+    try {
+      const streamed = await session.streamMessage(message, {
+        onSceneText: (text) => setStreamingSceneText(holdBack || checkWithRules(text, rating).length > 0 ? 'The narrator pauses to choose their words...' : text),
+        onImagePrompt: (prompt) => {
+          if (!holdBack && checkWithRules(prompt, rating).length === 0) {
+            earlyImage.current = { prompt, job: startSceneImage(turnId, prompt) };
+          }
+        },
+        onRestart: () => setStreamingSceneText(''),
+      });
+      const response = await moderateTurn(streamed, rating, session, settings.modelModeration);
+      if (changedByModeration(response.moderation)) {
+        // The narrator continues from the version the player saw
+        await session.replaceLastReply(formatNarratorReply(response));
+      }
+      // A retried attempt may have settled on a different prompt than the one we started early
+      const imageJob = earlyImage.current?.prompt === response.imagePrompt
+        ? earlyImage.current.job
+        : startSceneImage(turnId, response.imagePrompt);
+      return { response, imageJob };
+    } catch (err) {
+      earlyImage.current?.job?.cancel();
+      throw err;
+    } finally {
+      setStreamingSceneText('');
     }
   };
 
+  /**
+   * Streams the turn for a player action. If the narrator asks for a skill check, the game rolls it, shows the roll,
+   * and has the narrator narrate the outcome it was given; that narration is the turn's response.
+   */
+  const streamActionTurn = async (session: StorytellerSession, action: string, turnId: string) => {
+    const historyBeforeAttempt = session.getHistory();
+    const attempt = await streamTurn(session, formatMessageWithState(action, gameState), turnId);
+    if (!attempt.response.check) {
+      return { ...attempt, check: undefined };
+    }
+
+    attempt.imageJob?.cancel(); // Only the outcome gets a picture
+    const checksSoFar = turns.filter(turn => turn.check).length;
+    const result = rollCheck(campaign.ruleSystem ?? DEFAULT_RULE_SYSTEM, diceSeed, checksSoFar, attempt.response.check, character.skills);
+    const check: TurnCheck = { attempt: attempt.response.sceneDescription, result };
+    setPendingTurnText(prev => `${prev}\n${check.attempt}\n\n${describeCheck(result)}\n`);
+    setLoadingMessage('The dice have spoken...');
+
+    let outcome: Awaited<ReturnType<typeof streamTurn>>;
+    try {
+      outcome = await streamTurn(session, formatMessageWithState(formatCheckResultMessage(result), gameState), turnId);
+    } catch (err) {
+      // The narrator's history would end on a check it never heard the result of, so it goes back to before the
+      // attempt; a retry, or the room's replayed round, then plays the action again from there
+      sessionRef.current = storyteller.createSession(buildSystemInstruction(campaign, character, memory), historyBeforeAttempt, adventureId);
+      throw err;
+    }
+    // Checks don't chain: a second request in the outcome is ignored and the narration stands
+    // The turn cost both calls, and keeps the moderation checks of both
+    const moderation = [...(attempt.response.moderation ?? []), ...(outcome.response.moderation ?? [])];
+    return {
+      ...outcome,
+      response: {
+        ...outcome.response,
+        check: undefined,
+        usage: addTurnUsage(attempt.response.usage, outcome.response.usage),
+        moderation: moderation.length > 0 ? moderation : undefined,
+      },
+      check,
+    };
+  };
+
   const handleStartGame = useCallback(async () => {
     setIsLoading(true);
     setError(null);
-    setCurrentImageUrl(null); 
     setCurrentSceneDescription('');
+    setPendingTurnText('');
+    cancelStaleImages(true);
+    setImageStatuses({});
+    setTimeline(createTimeline());
+    setActiveSaveId(null);
+    setSaveName('');
+    setSaveStatus('');
+    setStateNotice('');
+    setInputChecks([]);
     setLoadingMessage('Starting your adventure...');
     try {
-      chatRef.current = createChatSession();
-      const initialResponse = await sendMessageToGemini(chatRef.current, "Start the adventure.");
-      if (initialResponse) {
-        setCurrentSceneDescription(initialResponse.sceneDescription);
-        setLoadingMessage('Generating scene artwork...');
-        const imageUrl = await generateImageWithCloudflare(initialResponse.imagePrompt);
-        setCurrentImageUrl(imageUrl);
-        setGameStarted(true);
-        setLoadingMessage('');
-      } else {
-        setLoadingMessage('');
-        setError("Failed to initialize the game. The AI storyteller might be busy or returned an unexpected response.");
-      }
+      const startingCharacter = normalizeCharacter(character);
+      const initialState = createInitialGameState(startingCharacter.startingGear);
+      const initialMemory = createEmptyMemory();
+      setCharacter(startingCharacter);
+      setGameState(initialState);
+      setMemory(initialMemory);
+      setDiceSeed(createDiceSeed());
+      const newAdventureId = crypto.randomUUID();
+      setAdventureId(newAdventureId);
+      const session = storyteller.createSession(buildSystemInstruction(campaign, startingCharacter, initialMemory), [], newAdventureId);
+      sessionRef.current = session;
+      const turnId = crypto.randomUUID();
+      const { response: initialResponse, imageJob } = await streamTurn(session, formatMessageWithState("Start the adventure.", initialState), turnId);
+      setCurrentSceneDescription(initialResponse.sceneDescription);
+      const turnState = applyTurnState(initialState, initialResponse);
+      const turnMemory = applyTurnMemory(initialMemory, initialResponse);
+      recordTurn(turnId, null, null, initialResponse, turnState, turnMemory, session);
+      if (imageJob) collectSceneImage(turnId, imageJob);
+      setGameStarted(true);
+      setLoadingMessage('');
     } catch (err) {
-      handleGenericError(err, "starting game");
+      handleGenericError(err, "starting game", handleStartGame);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [campaign, character, settings.textOnly, settings.modelModeration]);
 
-  const handlePlayerActionSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!playerAction.trim() || !chatRef.current || isLoading) return;
+  // Shared path for typed actions, clicked suggestions and a shared adventure's rounds. Resolves to whether the turn
+  // was narrated and, for a round moderation turned away, the notice that tells the room why.
+  const submitPlayerAction = async (action: string): Promise<{ ok: boolean; notice?: string }> => {
+    if (!action.trim() || !sessionRef.current || isLoading) return { ok: false };
 
     setIsLoading(true);
     setError(null);
-    const actionToSubmit = playerAction;
+    setSaveStatus('');
+    const actionToSubmit = action.trim();
     setPlayerAction(''); // Clear input field immediately
+    setPendingTurnText(''); // A failed turn's action and silence, which this turn retries or replaces
     setLoadingMessage('Processing your action...');
+    cancelStaleImages(); // The player has moved on, so older scenes still waiting in the queue can go
+    narration.stop();
 
     try {
-      // Append player action to scene description for context
-      setCurrentSceneDescription(prev => `${prev}\n\n> ${actionToSubmit}\n`);
+      const session = sessionRef.current;
+      const actionCheck = await moderatePlayerInput('action', actionToSubmit, campaign.contentRating, settings.modelModeration ? session : undefined);
+      // Shown for context while the turn is played, and only added to the transcript once it has been narrated
+      setPendingTurnText(`\n\n${formatAction(actionToSubmit)}\n`);
 
-      const gameResponse = await sendMessageToGemini(chatRef.current, actionToSubmit);
-      if (gameResponse) {
-        setCurrentSceneDescription(prev => `${prev}\n${gameResponse.sceneDescription}`);
-        setLoadingMessage('Creating scene artwork...');
-        const imageUrl = await generateImageWithCloudflare(gameResponse.imagePrompt);
-        setCurrentImageUrl(imageUrl);
-        setLoadingMessage('');
+      const turnId = crypto.randomUUID();
+      const { response: narrated, imageJob, check } = await streamActionTurn(session, actionToSubmit, turnId);
+      const gameResponse: GameAIResponse = { ...narrated, moderation: [actionCheck, ...(narrated.moderation ?? [])] };
+      const rollText = check ? `\n${check.attempt}\n\n${describeCheck(check.result)}\n` : '';
+      setCurrentSceneDescription(prev => `${prev}\n\n${formatAction(actionToSubmit)}\n${rollText}\n${gameResponse.sceneDescription}`);
+      setPendingTurnText('');
+      const turnState = applyTurnState(gameState, gameResponse);
+      const turnMemory = applyTurnMemory(memory, gameResponse);
+      recordTurn(turnId, timeline.currentId, actionToSubmit, gameResponse, turnState, turnMemory, session, check);
+      if (imageJob) collectSceneImage(turnId, imageJob);
+      // The next turn must go to the rebuilt session, so input stays locked while older turns are summarised
+      setLoadingMessage('Recording the chronicle...');
+      await compactMemoryIfNeeded(session, turnMemory);
+      setLoadingMessage('');
+      return { ok: true };
+    } catch (err) {
+      // A shared adventure's round is played again through the room instead
+      handleGenericError(err, "processing your action", roomRef.current ? undefined : () => submitPlayerAction(actionToSubmit));
+      if (err instanceof ContentBlockedError) {
+        setInputChecks(prev => [...prev, err.decision]);
+        // A round holds everyone's actions, so rather than putting them in the host's input the room asks all to act again
+        if (roomRef.current) {
+          return { ok: false, notice: `That round includes ${describeCategories(err.decision.categories)}, which a ${err.decision.rating} story leaves out - please act again.` };
+        }
+        setPlayerAction(actionToSubmit); // Never sent, so the player can rephrase it
       } else {
-        setLoadingMessage('');
-        setError("The story took an unexpected turn, or the AI is pondering. Try a different action or check if the AI returned an empty response.");
-         setCurrentSceneDescription(prev => `${prev}\n\n[The narrator seems to have lost their train of thought...]`);
+        setPendingTurnText(prev => `${prev}\n[An ominous silence fills the air as your words echo unanswered...]`);
       }
-    } catch (err) {
-      handleGenericError(err, "processing your action");
-       setCurrentSceneDescription(prev => `${prev}\n\n[An ominous silence fills the air as your words echo unanswered...]`);
     } finally {
       setIsLoading(false);
     }
+    return { ok: false };
+  };
+
+  // In a shared adventure every action, the host's included, goes to the room's round rather than straight to the narrator
+  const handleAction = (action: string) => {
+    if (!roomRef.current) {
+      submitPlayerAction(action);
+    } else if (action.trim()) {
+      roomRef.current.sendAction(action.trim());
+      setPlayerAction('');
+    }
   };
   
+  const handlePlayerActionSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    handleAction(playerAction);
+  };
+
+  // A spoken action is put in the input box, so the player sees what was heard, and sent like a typed one
+  const handleSpokenAction = (text: string) => {
+    setPlayerAction(text);
+    setSpokenAction(text);
+  };
+
+  useEffect(() => {
+    if (spokenAction === null || playerAction !== spokenAction) return;
+    setSpokenAction(null);
+    actionFormRef.current?.requestSubmit();
+  }, [spokenAction, playerAction]);
+
   const handleRestartGame = () => {
+    if (roomMembership?.isHost) handleLeaveRoom(); // Without the host's game there is nobody to narrate
     setGameStarted(false);
     setCurrentSceneDescription('');
-    setCurrentImageUrl(null);
+    setPendingTurnText('');
+    setViewedTurnId(null);
+    setViewerTurnId(null);
+    cancelStaleImages(true);
+    setImageStatuses({});
     setPlayerAction('');
     setError(null);
     setIsLoading(false);
     setLoadingMessage('');
-    chatRef.current = null; // Reset chat session
+    setTimeline(createTimeline());
+    setActiveSaveId(null);
+    setSaveName('');
+    setSaveStatus('');
+    setGameState(createInitialGameState());
+    setStateNotice('');
+    setInputChecks([]);
+    setMemory(createEmptyMemory());
+    sessionRef.current = null; // Reset storyteller session
+  };
+
+  const handleSaveGame = async () => {
+    if (!sessionRef.current || isLoading) return;
+
+    const save: SavedGame = {
+      id: activeSaveId ?? crypto.randomUUID(),
+      name: saveName.trim() || `Adventure of ${new Date().toLocaleString()}`,
+      savedAt: Date.now(),
+      transcript: currentSceneDescription,
+      turns,
+      chatHistory: sessionRef.current.getHistory(),
+      gameState,
+      campaign,
+      character,
+      timeline,
+      memory,
+      diceSeed,
+      adventureId,
+    };
+
+    try {
+      await saveGame(save);
+      setActiveSaveId(save.id);
+      setSaveName(save.name);
+      setSaveStatus(`Saved as "${save.name}".`);
+    } catch (err) {
+      handleGenericError(err, "saving game");
+    }
+  };
+
+  const handleLoadGame = async (id: string) => {
+    setIsLoading(true);
+    setError(null);
+    setLoadingMessage('Restoring your adventure...');
+    try {
+      const save = await loadGame(id);
+      if (!save) {
+        setLoadingMessage('');
+        showErrorMessage("That saved adventure could not be found. It may have been deleted.");
+        await refreshSaveSlots();
+        return;
+      }
+      const savedCampaign = save.campaign ?? DEFAULT_CAMPAIGN;
+      const savedCharacter = normalizeCharacter(save.character ?? createEmptyCharacter());
+      const savedMemory = save.memory ?? createEmptyMemory();
+      const savedAdventureId = save.adventureId ?? save.id;
+      sessionRef.current = storyteller.createSession(buildSystemInstruction(savedCampaign, savedCharacter, savedMemory), save.chatHistory, savedAdventureId);
+      setAdventureId(savedAdventureId);
+      setCampaign(savedCampaign);
+      setCharacter(savedCharacter);
+      setMemory(savedMemory);
+      setDiceSeed(save.diceSeed ?? createDiceSeed());
+      const savedState = save.gameState ?? createInitialGameState();
+      cancelStaleImages(true);
+      setImageStatuses({});
+      setTimeline(save.timeline ?? timelineFromTurns(save.turns, save.chatHistory, createInitialGameState(savedCharacter.startingGear), savedState));
+      setViewedTurnId(null);
+      setCurrentSceneDescription(save.transcript);
+      setPendingTurnText('');
+      setGameState(savedState);
+      setStateNotice('');
+      setInputChecks([]);
+      setActiveSaveId(save.id);
+      setSaveName(save.name);
+      setSaveStatus('');
+      setGameStarted(true);
+      setLoadingMessage('');
+    } catch (err) {
+      handleGenericError(err, "loading game");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Restores the game to just after an earlier turn, or jumps to another branch; the next action branches from there
+  const handleRewind = (turnId: string) => {
+    const path = getTimelinePath(timeline, turnId);
+    const turn = path[path.length - 1];
+    if (!turn || isLoading) return;
+
+    const turnMemory = keepPlayerEdits(turn.memory ?? createEmptyMemory(), memory.codex);
+    sessionRef.current = storyteller.createSession(buildSystemInstruction(campaign, character, turnMemory), turn.chatHistory, adventureId);
+    setMemory(turnMemory);
+    cancelStaleImages();
+    setTimeline(prev => ({ ...prev, currentId: turn.id }));
+    setViewedTurnId(null);
+    setCurrentSceneDescription(buildTranscript(path));
+    setPendingTurnText('');
+    setGameState(turn.gameState);
+    setStateNotice('');
+    setPlayerAction('');
+    setError(null);
+    setSaveStatus('');
+  };
+
+  // Paints another variant of a turn's scene; it is only shown in place of the kept image once the player picks it
+  const handleRegenerateImage = async (turnId: string, prompt: string) => {
+    const turn = timeline.nodes[turnId];
+    if (!turn || regeneratingTurnId) return;
+
+    const keptImage = getSceneImages(turn).find(image => image.url === turn.imageUrl);
+    setRegeneratingTurnId(turnId);
+    setError(null);
+    try {
+      const promptCheck = await moderatePlayerInput('image-prompt', prompt, campaign.contentRating, (settings.modelModeration && sessionRef.current) || undefined);
+      setInputChecks(prev => [...prev, promptCheck]);
+      // A fresh seed, or the proxy would hand back the cached picture for an unchanged prompt
+      const seed = Math.floor(Math.random() * 2 ** 32);
+      const image = await illustrate({ prompt, style: keptImage?.params.style || campaign.artStyle, seed }).result;
+      if (image) {
+        // A scene whose first image failed keeps the new one straight away
+        setTimeline(prev => addSceneImage(prev, turnId, image, !turn.imageUrl));
+      } else {
+        setError(new ImageGenerationError("The image generator returned no picture. Try again, or adjust the prompt."));
+        setRetryFailedStep(() => () => handleRegenerateImage(turnId, prompt));
+      }
+    } catch (err) {
+      if (err instanceof ContentBlockedError) setInputChecks(prev => [...prev, err.decision]);
+      handleGenericError(err, "regenerating scene artwork", () => handleRegenerateImage(turnId, prompt));
+    } finally {
+      setRegeneratingTurnId(null);
+    }
+  };
+
+  // Hands the session to another model, then plays the failed turn again there
+  const handleSwitchModel = async () => {
+    const switchModel = sessionRef.current?.switchModel;
+    const retry = retryFailedStep;
+    if (!switchModel || !retry) return;
+    try {
+      const model = await switchModel();
+      console.log(`Switched the storyteller to ${model}`);
+      setError(null);
+      retry();
+    } catch (err) {
+      handleGenericError(err, "switching models", retry);
+    }
+  };
+
+  // Player edits to the codex take effect from the next turn
+  const handleCodexChange = (codex: CodexEntry[]) => {
+    const nextMemory = { ...memory, codex };
+    setMemory(nextMemory);
+    if (sessionRef.current) {
+      sessionRef.current = storyteller.createSession(buildSystemInstruction(campaign, character, nextMemory), sessionRef.current.getHistory(), adventureId);
+    }
+  };
+
+  // Exports the branch being played, or a saved adventure when one is picked on the start screen
+  const handleExportStorybook = async (format: StorybookFormat, options: StorybookOptions, saveId?: string) => {
+    setError(null);
+    try {
+      let book: Storybook;
+      if (saveId) {
+        const save = await loadGame(saveId);
+        if (!save) {
+          showErrorMessage("That saved adventure could not be found. It may have been deleted.");
+          await refreshSaveSlots();
+          return;
+        }
+        book = { title: save.name, campaign: save.campaign ?? DEFAULT_CAMPAIGN, character: save.character ?? createEmptyCharacter(), turns: save.turns };
+      } else {
+        book = { title: saveName.trim() || campaign.name, campaign, character, turns };
+      }
+      const { blob, fileName } = await exportStorybook(book, format, options);
+      downloadBlob(blob, fileName);
+    } catch (err) {
+      handleGenericError(err, "exporting storybook");
+    }
+  };
+
+  const handleSaveCampaignPreset = () => {
+    // Edited built-in campaigns are saved as a new custom preset
+    const preset: Campaign = campaign.builtIn ? { ...campaign, id: crypto.randomUUID(), builtIn: false } : campaign;
+    try {
+      setCustomCampaigns(saveCustomCampaign(preset));
+      setCampaign(preset);
+    } catch (err) {
+      handleGenericError(err, "saving campaign preset");
+    }
+  };
+
+  const handleDeleteCampaignPreset = (id: string) => {
+    try {
+      setCustomCampaigns(deleteCustomCampaign(id));
+      setCampaign(DEFAULT_CAMPAIGN);
+    } catch (err) {
+      handleGenericError(err, "deleting campaign preset");
+    }
+  };
+
+  const handleImportCampaigns = (json: string) => {
+    setError(null);
+    try {
+      const imported = parseCampaignImport(json);
+      let presets = customCampaigns;
+      for (const preset of imported) {
+        presets = saveCustomCampaign(preset);
+      }
+      setCustomCampaigns(presets);
+      if (imported.length > 0) {
+        setCampaign(imported[0]);
+      }
+    } catch (err) {
+      handleGenericError(err, "importing campaigns");
+    }
+  };
+
+  const handleDeleteSave = async (id: string) => {
+    try {
+      await deleteSave(id);
+      await refreshSaveSlots();
+    } catch (err) {
+      handleGenericError(err, "deleting save");
+    }
+  };
+
+  const resetRoom = () => {
+    setRoom(null);
+    setRoomMembership(null);
+    setRoomConnected(false);
+    setSharedStory(null);
+    setPendingRoundAction(null);
+  };
+
+  // Hosts open a room for the running game; guests join one from the start screen, or rejoin after a reload
+  const enterRoom = (entry: RoomEntry) => {
+    roomRef.current?.close();
+    setError(null);
+    setRoomNotice('');
+    const connection = connectToRoom(entry, {
+      onJoined: setRoomMembership,
+      onRoom: setRoom,
+      onStory: setSharedStory,
+      onRound: setPendingRoundAction,
+      onNotice: setRoomNotice,
+      onError: showErrorMessage,
+      onConnectionChange: setRoomConnected,
+      onClosed: (reason) => {
+        if (roomRef.current !== connection) return;
+        roomRef.current = null;
+        resetRoom();
+        setRoomNotice(reason);
+      },
+    });
+    roomRef.current = connection;
+  };
+
+  const handleLeaveRoom = () => {
+    roomRef.current?.leave();
+    roomRef.current = null;
+    resetRoom();
+    setRoomNotice('');
+  };
+
+
+  const latestTurn = turns[turns.length - 1];
+  // The scene picked in the filmstrip, or else the most recent one with artwork
+  const displayedTurn = turns.find(turn => turn.id === viewedTurnId) ?? [...turns].reverse().find(turn => turn.imageUrl);
+  const currentImageUrl = displayedTurn?.imageUrl ?? null;
+  // The newest scene's artwork is still in the queue, or it never arrived
+  const latestImageStatus = latestTurn && !latestTurn.imageUrl ? imageStatuses[latestTurn.id] : undefined;
+  const latestImagePending = latestImageStatus === 'queued' || latestImageStatus === 'running';
+  const latestImageMissing = !!latestTurn && !latestTurn.imageUrl && !latestImagePending && !viewedTurnId && !isLoading;
+  const suggestedActions = latestTurn?.response.suggestedActions ?? [];
+  // Fall back to free text if the narrator offered no choices, so choices-only mode can never dead-end
+  const showFreeTextInput = !settings.choicesOnly || suggestedActions.length === 0;
+  const isGuest = !!room && !!roomMembership && !roomMembership.isHost;
+  // In a shared adventure the host acts when the round lets them, like everyone else
+  const roomAllowsAction = !room || !roomMembership || (roomConnected && room.round.status === 'collecting' && (room.mode === 'simultaneous' || room.round.turnPlayerId === roomMembership.playerId));
+  const actionsDisabled = isLoading || !roomAllowsAction;
+
+  // Browsers may add voices after the page has loaded, and say so
+  useEffect(() => {
+    const loadVoices = () => listNarrationVoices().then(setNarrationVoices);
+    loadVoices();
+    if (!isSpeechSynthesisSupported()) return;
+    speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, []);
+
+  // Reads text aloud in the chosen voice; the returned function cuts it short and forgets it
+  const narrate = (text: string): (() => void) => {
+    let current = true;
+    setIsNarrating(true);
+    setNarrationNotice('');
+    narration.speak(text, pickNarrationVoice(narrationVoices, settings.narrationVoice), settings.narrationRate)
+      .catch(err => {
+        console.warn("Narration failed:", err);
+        if (current) setNarrationNotice('The scene could not be read aloud, so the story carries on as text.');
+      })
+      .finally(() => {
+        if (current) setIsNarrating(false);
+      });
+    return () => {
+      current = false;
+      narration.stop();
+      setIsNarrating(false);
+      setNarrationNotice('');
+    };
   };
 
+  // Each new scene is read aloud; the next one, skipping, or turning narration off cuts it short
+  useEffect(() => {
+    if (!settings.narration || !gameStarted || !latestTurn) return;
+    return narrate(getTurnText(latestTurn));
+  }, [settings.narration, gameStarted, latestTurn?.id]);
+
+  // Guests hear whatever the host's story added since they last listened
+  useEffect(() => {
+    const transcript = sharedStory?.transcript ?? '';
+    const alreadyRead = sharedTranscriptRef.current;
+    sharedTranscriptRef.current = transcript;
+    if (!settings.narration || !isGuest || !transcript) return;
+    // A guest who just joined hears the latest round rather than the whole story
+    const added = alreadyRead && transcript.startsWith(alreadyRead)
+      ? transcript.slice(alreadyRead.length).trim()
+      : transcript.slice(Math.max(0, transcript.lastIndexOf('\n\n> '))).trim();
+    if (added) return narrate(added);
+  }, [settings.narration, isGuest, sharedStory?.transcript]);
+
+  // Escape skips the narration, wherever the focus is
+  useEffect(() => {
+    if (!isNarrating) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') narration.stop();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isNarrating]);
+
+  // The host's game narrates each closed round as soon as it is free, then tells the room whether it worked
+  useEffect(() => {
+    if (pendingRoundAction === null || isLoading) return;
+    setPendingRoundAction(null);
+    submitPlayerAction(pendingRoundAction).then(({ ok, notice }) => roomRef.current?.finishRound(ok, notice));
+  }, [pendingRoundAction, isLoading]);
+
+  // Shares the host's story after every turn, and again when a scene's artwork arrives
+  useEffect(() => {
+    if (!roomMembership?.isHost || !roomConnected || isLoading) return;
+    roomRef.current?.shareStory({
+      campaignName: campaign.name,
+      transcript: buildTranscript(turns),
+      imageUrl: [...turns].reverse().find(turn => turn.imageUrl)?.imageUrl ?? null,
+      suggestedActions,
+      gameState,
+      character,
+    });
+  }, [roomMembership, roomConnected, isLoading, latestTurn?.id, latestTurn?.imageUrl]);
+
+  const narrationStatus = (isNarrating || narrationNotice) && (
+    <div className="-mt-2 mb-4 flex items-center justify-end gap-3 text-xs text-gray-400" role="status">
+      {narrationNotice || '🔊 Reading the scene aloud (Esc to skip)'}
+      {isNarrating && (
+        <button type="button" onClick={narration.stop} className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-100 rounded">Skip narration</button>
+      )}
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900 text-gray-100 flex flex-col items-center justify-center p-4 selection:bg-purple-500 selection:text-white" style={{fontFamily: "'Inter', sans-serif"}}>
@@ -128,12 +860,33 @@ const App: React.FC = () => {
           Simulated Souls
         </h1>
         <p className="text-purple-300 mt-2 text-lg">Your choices shape the world. What will you do?</p>
+        <p className="text-gray-500 mt-1 text-xs">Narrated by {storyteller.name}</p>
       </header>
 
-      <main className="w-full max-w-3xl bg-gray-800 bg-opacity-70 backdrop-blur-md shadow-2xl rounded-xl p-6 md:p-8">
-        <ErrorMessage message={error || ""} />
+      <main className="w-full max-w-4xl bg-gray-800 bg-opacity-70 backdrop-blur-md shadow-2xl rounded-xl p-6 md:p-8">
+        <ErrorMessage
+          error={error}
+          onRetry={retryFailedStep ?? undefined}
+          onSwitchModel={sessionRef.current?.switchModel && retryFailedStep ? handleSwitchModel : undefined}
+          onDismiss={() => setError(null)}
+        />
+        {roomNotice && <p className="mb-4 text-sm text-purple-300 text-center" role="status">{roomNotice}</p>}
 
-        {!gameStarted ? (
+        {isGuest ? (
+          <>
+            <SharedAdventureView
+              room={room}
+              story={sharedStory}
+              playerId={roomMembership.playerId}
+              connected={roomConnected}
+              pushToTalk={settings.pushToTalk}
+              onAction={(action) => roomRef.current?.sendAction(action)}
+              onLeave={handleLeaveRoom}
+            />
+            {narrationStatus}
+            <SettingsPanel settings={settings} onChange={handleSettingsChange} voices={narrationVoices} />
+          </>
+        ) : !gameStarted ? (
           <div className="text-center">
             {isLoading ? (
               <div className="flex flex-col items-center space-y-4">
@@ -141,69 +894,149 @@ const App: React.FC = () => {
                 {loadingMessage && (
                   <p className="text-purple-300 text-lg animate-pulse">{loadingMessage}</p>
                 )}
+                {streamingSceneText && (
+                  <p className="text-left whitespace-pre-wrap text-lg leading-relaxed text-gray-200" aria-live="polite">{streamingSceneText}</p>
+                )}
               </div>
             ) : (
-              <button
-                onClick={handleStartGame}
-                className="px-8 py-4 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-semibold rounded-lg shadow-lg transform hover:scale-105 transition-all duration-300 text-xl focus:outline-none focus:ring-4 focus:ring-purple-400 focus:ring-opacity-50"
-              >
-                Begin Your Adventure
-              </button>
+              <>
+                <CampaignSetup
+                  campaign={campaign}
+                  presets={[...BUILT_IN_CAMPAIGNS, ...customCampaigns]}
+                  onChange={setCampaign}
+                  onSavePreset={handleSaveCampaignPreset}
+                  onDeletePreset={handleDeleteCampaignPreset}
+                  onImport={handleImportCampaigns}
+                  disabled={isLoading}
+                />
+                <CharacterCreation character={character} onChange={setCharacter} disabled={isLoading} />
+                <button
+                  onClick={handleStartGame}
+                  className="px-8 py-4 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white font-semibold rounded-lg shadow-lg transform hover:scale-105 transition-all duration-300 text-xl focus:outline-none focus:ring-4 focus:ring-purple-400 focus:ring-opacity-50"
+                >
+                  Begin Your Adventure
+                </button>
+                <SaveLoadMenu slots={saveSlots} onLoad={handleLoadGame} onDelete={handleDeleteSave} disabled={isLoading} />
+                <RoomForm variant="join" onSubmit={enterRoom} disabled={isLoading} />
+                <StorybookExport slots={saveSlots} onExport={handleExportStorybook} disabled={isLoading} />
+                <SettingsPanel settings={settings} onChange={handleSettingsChange} voices={narrationVoices} />
+              </>
             )}
           </div>
         ) : (
           <>
-            <div className="mb-6 h-72 md:h-96 w-full bg-gray-700 rounded-lg shadow-inner overflow-hidden flex items-center justify-center border-2 border-purple-500 border-opacity-30">
-              {isLoading && !currentImageUrl ? (
-                <div className="flex flex-col items-center space-y-4">
-                  <LoadingSpinner size="w-16 h-16" />
-                  {loadingMessage && (
-                    <p className="text-purple-300 text-lg animate-pulse">{loadingMessage}</p>
+            {room && roomMembership && (
+              <RoomPanel room={room} playerId={roomMembership.playerId} connected={roomConnected} onLeave={handleLeaveRoom} />
+            )}
+            {!settings.textOnly && (
+              <>
+                <div className="relative mb-6 h-72 md:h-96 w-full bg-gray-700 rounded-lg shadow-inner overflow-hidden flex items-center justify-center border-2 border-purple-500 border-opacity-30">
+                  {isLoading && !currentImageUrl ? (
+                    <div className="flex flex-col items-center space-y-4">
+                      <LoadingSpinner size="w-16 h-16" />
+                      {loadingMessage && (
+                        <p className="text-purple-300 text-lg animate-pulse">{loadingMessage}</p>
+                      )}
+                    </div>
+                  ) : latestImageMissing ? (
+                    <div className="flex flex-col items-center space-y-3 text-gray-400 text-lg p-4">
+                      <p>The vision faded before it could be painted.</p>
+                      <button
+                        type="button"
+                        onClick={() => handleRegenerateImage(latestTurn.id, applyAppearanceToImagePrompt(latestTurn.response.imagePrompt, character))}
+                        className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold rounded-lg shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        disabled={regeneratingTurnId !== null}
+                      >
+                        {regeneratingTurnId === latestTurn.id ? 'Painting...' : 'Try again'}
+                      </button>
+                    </div>
+                  ) : currentImageUrl ? (
+                    <button type="button" onClick={() => displayedTurn && setViewerTurnId(displayedTurn.id)} className="w-full h-full cursor-zoom-in" aria-label="Open scene in full screen">
+                      <img src={currentImageUrl} alt="Current game scene" className="w-full h-full object-cover" />
+                    </button>
+                  ) : (
+                    <div className="flex flex-col items-center space-y-4 text-gray-400 text-lg p-4">
+                      {latestImagePending && <LoadingSpinner size="w-12 h-12" />}
+                      <p>{latestImagePending ? 'Painting the first scene...' : 'Awaiting the first vision...'}</p>
+                    </div>
+                  )}
+                  {latestImagePending && currentImageUrl && !viewedTurnId && (
+                    <p className="absolute bottom-2 right-2 px-3 py-1 bg-gray-900 bg-opacity-75 rounded-md text-purple-300 text-sm animate-pulse pointer-events-none">
+                      {latestImageStatus === 'queued' ? 'Waiting to paint the new scene...' : 'Painting the new scene...'}
+                    </p>
                   )}
                 </div>
-              ) : currentImageUrl ? (
-                <img src={currentImageUrl} alt="Current game scene" className="w-full h-full object-cover" />
-              ) : (
-                <div className="text-gray-400 text-lg p-4">
-                  {isLoading ? 'Conjuring visuals...' : 'Awaiting the first vision...'}
-                </div>
-              )}
-            </div>
-            
-            <div 
-              ref={sceneDescriptionRef}
-              className="h-64 md:h-80 bg-gray-700 bg-opacity-50 p-4 rounded-lg shadow-inner mb-6 overflow-y-auto whitespace-pre-wrap text-lg leading-relaxed border border-gray-600 scrollbar-thin scrollbar-thumb-purple-600 scrollbar-track-gray-800"
-              aria-live="polite"
-            >
-              {currentSceneDescription || "The story awaits its beginning..."}
-               {isLoading && <span className="animate-pulse"> The air shimmers with anticipation...</span>}
-            </div>
-
-            <form onSubmit={handlePlayerActionSubmit} className="flex flex-col md:flex-row gap-3">
-              <input
-                type="text"
-                value={playerAction}
-                onChange={(e) => setPlayerAction(e.target.value)}
-                placeholder="What do you do?"
-                className="flex-grow bg-gray-700 border border-gray-600 rounded-lg p-3 text-white placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors duration-200"
-                disabled={isLoading}
-                aria-label="Player action input"
+                <SceneFilmstrip turns={turns} selectedTurnId={displayedTurn?.id ?? null} onSelect={setViewedTurnId} />
+              </>
+            )}
+            {viewerTurnId && (
+              <ImageViewer
+                turns={turns}
+                turnId={viewerTurnId}
+                onNavigate={setViewerTurnId}
+                onClose={() => setViewerTurnId(null)}
+                onRegenerate={handleRegenerateImage}
+                onKeep={(turnId, imageId) => setTimeline(prev => keepSceneImage(prev, turnId, imageId))}
+                regenerating={regeneratingTurnId === viewerTurnId}
               />
-              <button
-                type="submit"
-                className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg shadow-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-purple-400 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed min-w-[120px]"
-                disabled={isLoading || !playerAction.trim()}
+            )}
+
+            <div className="flex flex-col md:flex-row gap-4 mb-6">
+              <div 
+                ref={sceneDescriptionRef}
+                className="flex-grow h-64 md:h-80 bg-gray-700 bg-opacity-50 p-4 rounded-lg shadow-inner overflow-y-auto whitespace-pre-wrap text-lg leading-relaxed border border-gray-600 scrollbar-thin scrollbar-thumb-purple-600 scrollbar-track-gray-800"
+                aria-live="polite"
               >
-                {isLoading ? (
-                  <div className="flex items-center justify-center space-x-2">
-                    <LoadingSpinner size="w-5 h-5" />
-                    <span className="text-sm">Sending...</span>
-                  </div>
-                ) : (
-                  'Send Action'
-                )}
-              </button>
-            </form>
+                {currentSceneDescription || "The story awaits its beginning..."}
+                {pendingTurnText}
+                {streamingSceneText && `\n${streamingSceneText}`}
+                 {isLoading && <span className="animate-pulse"> The air shimmers with anticipation...</span>}
+              </div>
+              <div className="md:w-56 flex-shrink-0 md:h-80 overflow-y-auto">
+                <CharacterPanel state={gameState} character={character} notice={stateNotice} />
+              </div>
+            </div>
+            {latestTurn?.response.model && (
+              <p className="-mt-4 mb-4 text-xs text-gray-500 text-right">This turn was narrated by {latestTurn.response.model}</p>
+            )}
+            {changedByModeration(latestTurn?.response.moderation) && (
+              <p className="-mt-2 mb-4 text-xs text-gray-400 text-right" role="status">🛡️ {describeModeration(latestTurn?.response.moderation)}</p>
+            )}
+            {narrationStatus}
+            {!!latestTurn?.response.usage?.warnings?.length && (
+              <p className="-mt-2 mb-4 text-xs text-yellow-300 text-right" role="status">⚠️ {latestTurn.response.usage.warnings.join('; ')}</p>
+            )}
+
+            <SuggestedActions actions={suggestedActions} onChoose={handleAction} disabled={actionsDisabled} />
+
+            {showFreeTextInput && (
+              <form ref={actionFormRef} onSubmit={handlePlayerActionSubmit} className="flex flex-col md:flex-row gap-3">
+                <input
+                  type="text"
+                  value={playerAction}
+                  onChange={(e) => setPlayerAction(e.target.value)}
+                  placeholder="What do you do?"
+                  className="flex-grow bg-gray-700 border border-gray-600 rounded-lg p-3 text-white placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors duration-200"
+                  disabled={actionsDisabled}
+                  aria-label="Player action input"
+                />
+                <button
+                  type="submit"
+                  className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg shadow-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-purple-400 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed min-w-[120px]"
+                  disabled={actionsDisabled || !playerAction.trim()}
+                >
+                  {isLoading ? (
+                    <div className="flex items-center justify-center space-x-2">
+                      <LoadingSpinner size="w-5 h-5" />
+                      <span className="text-sm">Sending...</span>
+                    </div>
+                  ) : (
+                    'Send Action'
+                  )}
+                </button>
+                {settings.pushToTalk && <PushToTalkButton onTranscript={handleSpokenAction} disabled={actionsDisabled} />}
+              </form>
+            )}
             
             {isLoading && loadingMessage && (
               <div className="mt-3 text-center">
@@ -214,7 +1047,36 @@ const App: React.FC = () => {
               </div>
             )}
             
-            <div className="mt-6 text-center">
+            <div className="mt-6 flex flex-col md:flex-row gap-3">
+              <input
+                type="text"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                placeholder="Name this save..."
+                className="flex-grow bg-gray-700 border border-gray-600 rounded-lg p-2 text-white placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors duration-200"
+                disabled={isLoading}
+                aria-label="Save slot name"
+              />
+              <button
+                onClick={handleSaveGame}
+                className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isLoading || turns.length === 0}
+              >
+                Save Adventure
+              </button>
+            </div>
+            {saveStatus && (
+              <p className="mt-2 text-sm text-green-300 text-center">{saveStatus}</p>
+            )}
+
+            <div className="mt-6 flex justify-center gap-3">
+              <button
+                onClick={() => latestTurn?.parentId && handleRewind(latestTurn.parentId)}
+                className="px-6 py-2 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-lg shadow-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-purple-400 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isLoading || !latestTurn?.parentId}
+              >
+                Undo Last Turn
+              </button>
               <button
                 onClick={handleRestartGame}
                 className="px-6 py-2 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg shadow-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-opacity-50"
@@ -223,6 +1085,14 @@ const App: React.FC = () => {
                 Restart Adventure
               </button>
             </div>
+
+            <TimelineView timeline={timeline} onSelect={handleRewind} disabled={isLoading} />
+            <CodexPanel codex={memory.codex} onChange={handleCodexChange} disabled={isLoading} />
+            <UsagePanel usage={summarizeAdventureUsage(Object.values(timeline.nodes))} report={usageReport} />
+            <ModerationLog decisions={[...Object.values(timeline.nodes).flatMap(turn => turn.response.moderation ?? []), ...inputChecks]} />
+            {!room && <RoomForm variant="host" defaultName={character.name} onSubmit={enterRoom} disabled={isLoading} />}
+            <StorybookExport onExport={handleExportStorybook} disabled={isLoading || turns.length === 0} />
+            <SettingsPanel settings={settings} onChange={handleSettingsChange} voices={narrationVoices} />
           </>
         )}
       </main>
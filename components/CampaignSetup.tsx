@@ -0,0 +1,120 @@
+import React, { useRef } from 'react';
+import type { Campaign, ContentRating, RuleSystem } from '../types';
+import { exportCampaigns } from '../services/campaignService';
+import { DEFAULT_RULE_SYSTEM, RULE_SYSTEM_LABELS, RULE_SYSTEMS } from '../services/rules';
+import { downloadBlob } from '../services/download';
+
+interface CampaignSetupProps {
+  campaign: Campaign;
+  presets: Campaign[];
+  onChange: (campaign: Campaign) => void;
+  onSavePreset: () => void;
+  onDeletePreset: (id: string) => void;
+  onImport: (json: string) => void;
+  disabled?: boolean;
+}
+
+const CONTENT_RATING_LABELS: Record<ContentRating, string> = {
+  family: 'Family - suitable for all ages',
+  teen: 'Teen - mild violence and peril',
+  mature: 'Mature - darker themes and strong language',
+};
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors duration-200";
+const secondaryButtonClassName = "px-3 py-2 bg-gray-600 hover:bg-gray-500 text-white text-sm rounded-lg shadow-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-purple-400 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const CampaignSetup: React.FC<CampaignSetupProps> = ({ campaign, presets, onChange, onSavePreset, onDeletePreset, onImport, disabled = false }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selectedPreset = presets.find(preset => preset.id === campaign.id);
+
+  const updateField = <K extends keyof Campaign>(field: K, value: Campaign[K]) => {
+    onChange({ ...campaign, [field]: value });
+  };
+
+  const handleSelectPreset = (id: string) => {
+    const preset = presets.find(candidate => candidate.id === id);
+    if (preset) onChange(preset);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (file) {
+      onImport(await file.text());
+    }
+  };
+
+  return (
+    <section className="text-left mb-6 space-y-3" aria-label="Campaign setup">
+      <div className="flex flex-col md:flex-row md:items-center gap-2">
+        <label htmlFor="campaign-preset" className="text-purple-300 font-semibold">Campaign</label>
+        <select
+          id="campaign-preset"
+          value={selectedPreset ? campaign.id : ''}
+          onChange={(e) => handleSelectPreset(e.target.value)}
+          className={`${inputClassName} md:flex-grow`}
+          disabled={disabled}
+        >
+          {!selectedPreset && <option value="">Custom (unsaved)</option>}
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.name}{preset.builtIn ? '' : ' (custom)'}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input className={inputClassName} value={campaign.name} onChange={(e) => updateField('name', e.target.value)} placeholder="Campaign name" aria-label="Campaign name" disabled={disabled} />
+        <input className={inputClassName} value={campaign.genre} onChange={(e) => updateField('genre', e.target.value)} placeholder="Genre, e.g. Space opera" aria-label="Genre" disabled={disabled} />
+        <input className={inputClassName} value={campaign.tone} onChange={(e) => updateField('tone', e.target.value)} placeholder="Tone, e.g. Tense and eerie" aria-label="Tone" disabled={disabled} />
+        <input className={inputClassName} value={campaign.artStyle} onChange={(e) => updateField('artStyle', e.target.value)} placeholder="Art style, e.g. oil painting" aria-label="Art style" disabled={disabled} />
+      </div>
+      <textarea className={inputClassName} rows={2} value={campaign.premise} onChange={(e) => updateField('premise', e.target.value)} placeholder="Premise - what is this adventure about?" aria-label="Premise" disabled={disabled} />
+      <textarea className={inputClassName} rows={2} value={campaign.openingHook} onChange={(e) => updateField('openingHook', e.target.value)} placeholder="Opening hook - how does the story begin?" aria-label="Opening hook" disabled={disabled} />
+      <select
+        value={campaign.contentRating}
+        onChange={(e) => updateField('contentRating', e.target.value as ContentRating)}
+        className={inputClassName}
+        aria-label="Content rating"
+        disabled={disabled}
+      >
+        {(Object.keys(CONTENT_RATING_LABELS) as ContentRating[]).map(rating => (
+          <option key={rating} value={rating}>{CONTENT_RATING_LABELS[rating]}</option>
+        ))}
+      </select>
+      <select
+        value={campaign.ruleSystem ?? DEFAULT_RULE_SYSTEM}
+        onChange={(e) => updateField('ruleSystem', e.target.value as RuleSystem)}
+        className={inputClassName}
+        aria-label="Dice rules"
+        disabled={disabled}
+      >
+        {RULE_SYSTEMS.map(system => (
+          <option key={system} value={system}>{RULE_SYSTEM_LABELS[system]}</option>
+        ))}
+      </select>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={onSavePreset} className={secondaryButtonClassName} disabled={disabled || !campaign.name.trim()}>
+          Save as Preset
+        </button>
+        <button type="button" onClick={() => onDeletePreset(campaign.id)} className={secondaryButtonClassName} disabled={disabled || !selectedPreset || selectedPreset.builtIn}>
+          Delete Preset
+        </button>
+        <button
+          type="button"
+          onClick={() => downloadBlob(new Blob([exportCampaigns(presets.filter(preset => !preset.builtIn))], { type: 'application/json' }), 'simulated-souls-campaigns.json')}
+          className={secondaryButtonClassName}
+          disabled={disabled || presets.every(preset => preset.builtIn)}
+        >
+          Export Presets
+        </button>
+        <button type="button" onClick={() => fileInputRef.current?.click()} className={secondaryButtonClassName} disabled={disabled}>
+          Import Presets
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+      </div>
+    </section>
+  );
+};
+
+export default CampaignSetup;
@@ -0,0 +1,63 @@
+import React from 'react';
+import type { PlayerCharacter, Skill } from '../types';
+import { formatSkillModifier, getSkillPointsLeft } from '../services/characterService';
+import { MAX_SKILL, MIN_SKILL, SKILL_DESCRIPTIONS, SKILLS } from '../services/rules';
+
+interface CharacterCreationProps {
+  character: PlayerCharacter;
+  onChange: (character: PlayerCharacter) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors duration-200";
+
+// Lists are edited as comma separated text; blank entries are dropped when the game starts
+const splitList = (text: string): string[] => text.split(',').map(item => item.trimStart());
+
+const SKILL_VALUES = Array.from({ length: MAX_SKILL - MIN_SKILL + 1 }, (_, index) => MIN_SKILL + index);
+
+const CharacterCreation: React.FC<CharacterCreationProps> = ({ character, onChange, disabled = false }) => {
+  const updateField = <K extends keyof PlayerCharacter>(field: K, value: PlayerCharacter[K]) => {
+    onChange({ ...character, [field]: value });
+  };
+  const pointsLeft = getSkillPointsLeft(character.skills);
+  const updateSkill = (skill: Skill, value: number) => updateField('skills', { ...character.skills, [skill]: value });
+
+  return (
+    <section className="text-left mb-6 space-y-3" aria-label="Character creation">
+      <h2 className="text-purple-300 font-semibold">Your Character <span className="text-gray-400 font-normal text-sm">(leave blank to let the narrator decide)</span></h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input className={inputClassName} value={character.name} onChange={(e) => updateField('name', e.target.value)} placeholder="Name" aria-label="Character name" disabled={disabled} />
+        <input className={inputClassName} value={character.background} onChange={(e) => updateField('background', e.target.value)} placeholder="Background, e.g. Disgraced royal archivist" aria-label="Background" disabled={disabled} />
+      </div>
+      <textarea className={inputClassName} rows={2} value={character.appearance} onChange={(e) => updateField('appearance', e.target.value)} placeholder="Appearance, e.g. tall woman with cropped silver hair, green hooded cloak" aria-label="Appearance" disabled={disabled} />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input className={inputClassName} value={character.traits.join(',')} onChange={(e) => updateField('traits', splitList(e.target.value))} placeholder="Traits, comma separated" aria-label="Traits" disabled={disabled} />
+        <input className={inputClassName} value={character.startingGear.join(',')} onChange={(e) => updateField('startingGear', splitList(e.target.value))} placeholder="Starting gear, comma separated" aria-label="Starting gear" disabled={disabled} />
+      </div>
+      <div>
+        <p className="text-sm text-gray-300 mb-1">Skills <span className="text-gray-400">- {pointsLeft} point{pointsLeft === 1 ? '' : 's'} left; lower one below zero to raise another</span></p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {SKILLS.map(skill => (
+            <label key={skill} className="flex items-center justify-between gap-2 bg-gray-700 border border-gray-600 rounded-lg p-2 text-white" title={SKILL_DESCRIPTIONS[skill]}>
+              <span className="capitalize">{skill}</span>
+              <select
+                value={character.skills[skill]}
+                onChange={(e) => updateSkill(skill, Number(e.target.value))}
+                className="bg-gray-800 border border-gray-600 rounded-md p-1 text-white"
+                aria-label={`${skill} modifier`}
+                disabled={disabled}
+              >
+                {SKILL_VALUES.map(value => (
+                  <option key={value} value={value} disabled={value - character.skills[skill] > pointsLeft}>{formatSkillModifier(value)}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default CharacterCreation;
@@ -0,0 +1,97 @@
+import React from 'react';
+import type { GameState, PlayerCharacter, QuestStatus } from '../types';
+import { formatSkillModifier, getCharacterDisplayName } from '../services/characterService';
+import { SKILL_DESCRIPTIONS, SKILLS } from '../services/rules';
+
+interface CharacterPanelProps {
+  state: GameState;
+  character: PlayerCharacter | null;
+  notice?: string;
+}
+
+const QUEST_STATUS_STYLES: Record<QuestStatus, string> = {
+  active: 'text-yellow-300',
+  completed: 'text-green-400 line-through',
+  failed: 'text-red-400 line-through',
+};
+
+const CharacterPanel: React.FC<CharacterPanelProps> = ({ state, character, notice }) => {
+  const hpPercent = state.maxHp > 0 ? Math.round((state.hp / state.maxHp) * 100) : 0;
+
+  return (
+    <aside className="bg-gray-700 bg-opacity-50 p-4 rounded-lg shadow-inner border border-gray-600 text-sm space-y-4" aria-label="Character sheet">
+      {character && (
+        <div>
+          <h3 className="text-base font-semibold text-white">{getCharacterDisplayName(character)}</h3>
+          {character.background && <p className="text-gray-300 italic">{character.background}</p>}
+          {character.appearance && <p className="text-gray-400 mt-1">{character.appearance}</p>}
+          {character.traits.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {character.traits.map(trait => (
+                <span key={trait} className="px-2 py-0.5 bg-purple-800 bg-opacity-60 rounded-full text-xs text-purple-100">{trait}</span>
+              ))}
+            </div>
+          )}
+          <dl className="grid grid-cols-4 gap-1 mt-2 text-center">
+            {SKILLS.map(skill => (
+              <div key={skill} className="bg-gray-800 bg-opacity-60 rounded-md py-1" title={SKILL_DESCRIPTIONS[skill]}>
+                <dt className="text-xs text-gray-400 capitalize">{skill}</dt>
+                <dd className="text-white font-semibold">{formatSkillModifier(character.skills[skill])}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      <div>
+        <div className="flex justify-between text-purple-300 font-semibold mb-1">
+          <span>Health</span>
+          <span>{state.hp} / {state.maxHp}</span>
+        </div>
+        <div className="w-full h-3 bg-gray-800 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all duration-500 ${hpPercent > 50 ? 'bg-green-500' : hpPercent > 20 ? 'bg-yellow-500' : 'bg-red-600'}`}
+            style={{ width: `${hpPercent}%` }}
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-purple-300 font-semibold mb-1">Location</h3>
+        <p className="text-gray-200">{state.location}</p>
+      </div>
+
+      <div>
+        <h3 className="text-purple-300 font-semibold mb-1">Inventory</h3>
+        {state.inventory.length > 0 ? (
+          <ul className="list-disc list-inside text-gray-200">
+            {state.inventory.map((item, index) => <li key={`${item}-${index}`}>{item}</li>)}
+          </ul>
+        ) : (
+          <p className="text-gray-400 italic">Empty-handed</p>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-purple-300 font-semibold mb-1">Quests</h3>
+        {state.quests.length > 0 ? (
+          <ul className="space-y-1">
+            {state.quests.map(quest => (
+              <li key={quest.title} title={quest.description}>
+                <span className={QUEST_STATUS_STYLES[quest.status]}>{quest.title}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-400 italic">No quests yet</p>
+        )}
+      </div>
+
+      {notice && (
+        <p className="text-xs text-orange-300 border-t border-gray-600 pt-2" role="status">{notice}</p>
+      )}
+    </aside>
+  );
+};
+
+export default CharacterPanel;
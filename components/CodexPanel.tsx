@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { CodexCategory, CodexEntry } from '../types';
+import { CODEX_CATEGORIES } from '../services/narrator';
+
+interface CodexPanelProps {
+  codex: CodexEntry[];
+  onChange: (codex: CodexEntry[]) => void;
+  disabled?: boolean;
+}
+
+const CATEGORY_LABELS: Record<CodexCategory, string> = {
+  npc: 'People',
+  place: 'Places',
+  faction: 'Factions',
+  item: 'Items',
+};
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none";
+const smallButtonClassName = "px-2 py-1 text-xs rounded-md bg-gray-600 hover:bg-gray-500 text-white disabled:opacity-50 disabled:cursor-not-allowed";
+
+// index is null while adding a new entry
+interface CodexDraft {
+  index: number | null;
+  entry: CodexEntry;
+}
+
+const CodexPanel: React.FC<CodexPanelProps> = ({ codex, onChange, disabled = false }) => {
+  const [draft, setDraft] = useState<CodexDraft | null>(null);
+
+  const updateDraft = <K extends keyof CodexEntry>(field: K, value: CodexEntry[K]) => {
+    setDraft(current => current && { ...current, entry: { ...current.entry, [field]: value } });
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft || !draft.entry.name.trim()) return;
+    const entry: CodexEntry = { ...draft.entry, name: draft.entry.name.trim(), description: draft.entry.description.trim(), editedByPlayer: true };
+    onChange(draft.index === null ? [...codex, entry] : codex.map((existing, index) => index === draft.index ? entry : existing));
+    setDraft(null);
+  };
+
+  const renderDraftForm = () => draft && (
+    <div className="space-y-2 bg-gray-700 bg-opacity-50 border border-gray-600 rounded-lg p-2">
+      <div className="flex gap-2">
+        <input className={inputClassName} value={draft.entry.name} onChange={(e) => updateDraft('name', e.target.value)} placeholder="Name" aria-label="Codex entry name" />
+        <select className={`${inputClassName} w-auto`} value={draft.entry.category} onChange={(e) => updateDraft('category', e.target.value as CodexCategory)} aria-label="Codex entry category">
+          {CODEX_CATEGORIES.map(category => <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>)}
+        </select>
+      </div>
+      <textarea className={inputClassName} rows={2} value={draft.entry.description} onChange={(e) => updateDraft('description', e.target.value)} placeholder="What is known about it" aria-label="Codex entry description" />
+      <div className="flex gap-2">
+        <button type="button" onClick={handleSaveDraft} className={smallButtonClassName} disabled={disabled || !draft.entry.name.trim()}>Save</button>
+        <button type="button" onClick={() => setDraft(null)} className={smallButtonClassName}>Cancel</button>
+      </div>
+    </div>
+  );
+
+  return (
+    <details className="mt-6 text-left text-sm text-gray-300">
+      <summary className="cursor-pointer text-purple-300 font-semibold select-none">Codex ({codex.length})</summary>
+      <div className="mt-3 space-y-4 pl-2">
+        <p className="text-gray-400">Everything the narrator has established. Your corrections are marked ✎ and the narrator will not overwrite them.</p>
+        {CODEX_CATEGORIES.map(category => {
+          const entries = codex.map((entry, index) => ({ entry, index })).filter(({ entry }) => entry.category === category);
+          if (entries.length === 0) return null;
+          return (
+            <div key={category}>
+              <h3 className="text-purple-300 font-semibold mb-1">{CATEGORY_LABELS[category]}</h3>
+              <ul className="space-y-2">
+                {entries.map(({ entry, index }) => (
+                  <li key={`${entry.name}-${index}`}>
+                    {draft?.index === index ? renderDraftForm() : (
+                      <div className="flex gap-2 items-start">
+                        <p className="flex-grow">
+                          <span className="font-semibold text-white">{entry.name}</span>
+                          {entry.editedByPlayer && <span className="text-purple-300" title="Edited by you"> ✎</span>}
+                          {entry.description && <span className="text-gray-300"> - {entry.description}</span>}
+                        </p>
+                        <button type="button" onClick={() => setDraft({ index, entry })} className={smallButtonClassName} disabled={disabled}>Edit</button>
+                        <button type="button" onClick={() => onChange(codex.filter((_, i) => i !== index))} className={smallButtonClassName} disabled={disabled} aria-label={`Delete ${entry.name}`}>Delete</button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+        {draft?.index === null ? renderDraftForm() : (
+          <button
+            type="button"
+            onClick={() => setDraft({ index: null, entry: { name: '', category: 'npc', description: '' } })}
+            className={smallButtonClassName}
+            disabled={disabled}
+          >
+            Add Entry
+          </button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default CodexPanel;
@@ -1,17 +1,83 @@
-
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import type { GameError, GameErrorKind } from '../services/errors';
 
 interface ErrorMessageProps {
-  message: string;
+  error: GameError | null;
+  onRetry?: () => void;       // Runs the failed step again; absent when there is nothing to retry
+  onSwitchModel?: () => void; // Offered for an overloaded storyteller that has other models
+  onDismiss: () => void;
 }
 
-const ErrorMessage: React.FC<ErrorMessageProps> = ({ message }) => {
-  if (!message) return null;
+const ERROR_TITLES: Record<GameErrorKind, string> = {
+  'rate-limited': 'Usage limit reached',
+  auth: 'API key problem',
+  overloaded: 'The storyteller is overloaded',
+  'malformed-response': 'The narrator lost the thread',
+  network: 'Connection problem',
+  image: 'The picture could not be painted',
+  budget: 'Usage budget reached',
+  blocked: 'Not in this story',
+  unknown: 'Error',
+};
+
+// What the player can do about each kind of error
+const ERROR_HINTS: Record<GameErrorKind, string> = {
+  'rate-limited': 'The quota refills over time, so the turn can be retried once the wait is over. See https://ai.google.dev/gemini-api/docs/rate-limits for the limits of your plan.',
+  auth: 'Check the API keys in .env.local that the proxy server reads, then restart the proxy server. Retrying will not help until then.',
+  overloaded: 'The request was already retried and handed to the fallback models. Try again in a moment, or switch to another model.',
+  'malformed-response': 'Its reply could not be read, even after asking it to repair it. Playing the turn again usually works.',
+  network: 'Check that the server is running and reachable, then try again.',
+  image: 'The story is unaffected, so you can carry on without this picture.',
+  budget: 'The proxy server refuses new turns past its hard budget. Raise the limit in .env.local and restart the proxy server, or come back tomorrow.',
+  blocked: "The campaign's content rating rules this out. Rephrase it, or pick one of the suggested actions.",
+  unknown: '',
+};
+
+const buttonClassName = "px-4 py-2 bg-red-900 hover:bg-red-800 text-white text-sm font-semibold rounded-lg shadow-md disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Counts down the wait a rate limit asked for
+const useRetryCountdown = (error: GameError | null): number => {
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  useEffect(() => {
+    const wait = error?.kind === 'rate-limited' ? error.retryAfterSeconds ?? 0 : 0;
+    setSecondsLeft(wait);
+    if (wait <= 0) return;
+
+    const deadline = Date.now() + wait * 1000;
+    const timer = setInterval(() => {
+      const left = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+      setSecondsLeft(left);
+      if (left === 0) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [error]);
+  return secondsLeft;
+};
+
+const ErrorMessage: React.FC<ErrorMessageProps> = ({ error, onRetry, onSwitchModel, onDismiss }) => {
+  const secondsLeft = useRetryCountdown(error);
+  if (!error) return null;
+
+  const canRetry = !!onRetry && !['auth', 'budget', 'blocked'].includes(error.kind);
 
   return (
     <div className="w-full max-w-2xl p-4 mb-6 bg-red-700 border border-red-900 text-white rounded-lg shadow-lg" role="alert">
-      <p className="font-semibold">Error:</p>
-      <p>{message}</p>
+      <p className="font-semibold">{ERROR_TITLES[error.kind]}</p>
+      <p>{error.message}</p>
+      {ERROR_HINTS[error.kind] && <p className="mt-1 text-sm text-red-100">{ERROR_HINTS[error.kind]}</p>}
+      <div className="mt-3 flex flex-wrap gap-2">
+        {canRetry && (
+          <button type="button" onClick={onRetry} className={buttonClassName} disabled={secondsLeft > 0}>
+            {secondsLeft > 0 ? `Retry in ${secondsLeft}s` : error.kind === 'image' ? 'Try again' : 'Retry this turn'}
+          </button>
+        )}
+        {error.kind === 'overloaded' && onSwitchModel && (
+          <button type="button" onClick={onSwitchModel} className={buttonClassName}>Switch model and retry</button>
+        )}
+        <button type="button" onClick={onDismiss} className={buttonClassName}>
+          {error.kind === 'image' ? 'Continue without an image' : 'Dismiss'}
+        </button>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TurnNode } from '../types';
+import { getSceneImages } from '../services/timeline';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ImageViewerProps {
+  turns: TurnNode[];
+  turnId: string;
+  onNavigate: (turnId: string) => void;
+  onClose: () => void;
+  onRegenerate: (turnId: string, prompt: string) => void;
+  onKeep: (turnId: string, imageId: string) => void;
+  regenerating: boolean;
+}
+
+const buttonClassName = "px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Full-screen view of one turn's artwork, with its variants and a way to regenerate it
+const ImageViewer: React.FC<ImageViewerProps> = ({ turns, turnId, onNavigate, onClose, onRegenerate, onKeep, regenerating }) => {
+  const illustrated = turns.filter(turn => turn.imageUrl || turn.images?.length);
+  const position = illustrated.findIndex(turn => turn.id === turnId);
+  const turn = illustrated[position];
+  const images = turn ? getSceneImages(turn) : [];
+  const keptImage = images.find(image => image.url === turn?.imageUrl) ?? images[images.length - 1];
+  const [previewImageId, setPreviewImageId] = useState<string | null>(null);
+  const shownImage = images.find(image => image.id === previewImageId) ?? keptImage;
+  const [prompt, setPrompt] = useState<string>(shownImage?.params.prompt ?? '');
+
+  // Show the kept image when moving to another scene, and each new variant as soon as it arrives
+  const seenVariants = useRef({ turnId, count: images.length });
+  useEffect(() => {
+    if (seenVariants.current.turnId !== turnId) {
+      setPreviewImageId(null);
+    } else if (images.length > seenVariants.current.count) {
+      setPreviewImageId(images[images.length - 1].id);
+    }
+    seenVariants.current = { turnId, count: images.length };
+  }, [turnId, images]);
+
+  // Start from the prompt of whichever image is being looked at
+  useEffect(() => {
+    setPrompt(shownImage?.params.prompt ?? '');
+  }, [shownImage?.id]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' && position > 0) onNavigate(illustrated[position - 1].id);
+      if (e.key === 'ArrowRight' && position < illustrated.length - 1) onNavigate(illustrated[position + 1].id);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [illustrated, position, onClose, onNavigate]);
+
+  if (!turn) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-90 flex flex-col p-4 gap-3" role="dialog" aria-modal="true" aria-label="Scene viewer">
+      <div className="flex justify-between items-center text-gray-300">
+        <p className="truncate">{turn.action ? `> ${turn.action}` : 'Opening scene'}</p>
+        <button type="button" onClick={onClose} className={buttonClassName} aria-label="Close viewer">✕</button>
+      </div>
+
+      <div className="flex-grow min-h-0 flex items-center gap-3">
+        <button type="button" onClick={() => onNavigate(illustrated[position - 1].id)} className={buttonClassName} disabled={position <= 0} aria-label="Previous scene">‹</button>
+        <div className="flex-grow h-full flex items-center justify-center">
+          {shownImage ? (
+            <img src={shownImage.url} alt="Scene artwork" className="max-w-full max-h-full object-contain rounded-lg" />
+          ) : (
+            <p className="text-gray-400">No artwork for this scene yet.</p>
+          )}
+        </div>
+        <button type="button" onClick={() => onNavigate(illustrated[position + 1].id)} className={buttonClassName} disabled={position >= illustrated.length - 1} aria-label="Next scene">›</button>
+      </div>
+
+      {images.length > 1 && (
+        <div className="flex gap-2 justify-center items-center" role="group" aria-label="Image variants">
+          {images.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setPreviewImageId(image.id)}
+              className={`relative w-16 h-12 rounded-md overflow-hidden border-2 ${image.id === shownImage?.id ? 'border-purple-400' : 'border-transparent opacity-60 hover:opacity-100'}`}
+              title={image.url === turn.imageUrl ? 'Kept for this scene' : `Variant ${index + 1}`}
+            >
+              <img src={image.url} alt={`Variant ${index + 1}`} className="w-full h-full object-cover" />
+              {image.url === turn.imageUrl && <span className="absolute bottom-0 right-0 px-1 text-xs bg-purple-700 text-white">✓</span>}
+            </button>
+          ))}
+          {shownImage && shownImage.url !== turn.imageUrl && (
+            <button type="button" onClick={() => onKeep(turn.id, shownImage.id)} className={buttonClassName}>
+              Keep this version
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-2 max-w-3xl w-full mx-auto">
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          rows={2}
+          className="flex-grow bg-gray-800 border border-gray-600 rounded-lg p-2 text-white text-sm"
+          aria-label="Image prompt"
+        />
+        <button
+          type="button"
+          onClick={() => onRegenerate(turn.id, prompt.trim())}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          disabled={regenerating || !prompt.trim()}
+        >
+          {regenerating ? <><LoadingSpinner size="w-4 h-4" /><span>Painting...</span></> : 'Regenerate'}
+        </button>
+      </div>
+      {shownImage?.params.style && (
+        <p className="text-center text-xs text-gray-500">
+          Style: {shownImage.params.style}
+          {shownImage.params.seed !== undefined && <> · Seed: {shownImage.params.seed}</>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ImageViewer;
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { ModerationDecision } from '../types';
+import { describeCategories } from '../services/moderation';
+
+interface ModerationLogProps {
+  decisions: ModerationDecision[]; // In any order; the newest is listed first
+}
+
+const CONTENT_LABELS: Record<ModerationDecision['content'], string> = {
+  action: 'Action',
+  scene: 'Scene',
+  'image-prompt': 'Picture prompt',
+};
+
+const VERDICT_STYLES: Record<ModerationDecision['verdict'], string> = {
+  allowed: 'text-green-300',
+  blocked: 'text-red-300',
+  rewritten: 'text-yellow-300',
+  replaced: 'text-yellow-300',
+};
+
+// Every moderation check of this adventure: what was checked, by the rules or the storyteller, and what came of it
+const ModerationLog: React.FC<ModerationLogProps> = ({ decisions }) => {
+  const newestFirst = [...decisions].sort((a, b) => b.at - a.at);
+
+  return (
+    <details className="mt-6 text-left text-sm text-gray-300">
+      <summary className="cursor-pointer text-purple-300 font-semibold select-none">Moderation Log</summary>
+      {newestFirst.length === 0 ? (
+        <p className="mt-3 pl-2 text-gray-500">Nothing has been checked yet.</p>
+      ) : (
+        <ol className="mt-3 space-y-1 pl-2" aria-label="Moderation decisions">
+          {newestFirst.map((decision, index) => (
+            <li key={`${decision.at}-${index}`} className="flex flex-wrap gap-x-2">
+              <span className="text-gray-500">{new Date(decision.at).toLocaleTimeString()}</span>
+              <span className="text-gray-100">{CONTENT_LABELS[decision.content]}</span>
+              <span className={VERDICT_STYLES[decision.verdict]}>{decision.verdict}</span>
+              <span className="text-gray-400">
+                by {decision.source === 'model' ? 'the storyteller' : 'the rules'} for a {decision.rating} story
+                {decision.categories.length > 0 && ` (${describeCategories(decision.categories)})`}
+                {decision.reason && ` - ${decision.reason}`}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </details>
+  );
+};
+
+export default ModerationLog;
@@ -0,0 +1,67 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPushToTalk, type PushToTalk } from '../services/voice';
+
+interface PushToTalkButtonProps {
+  onTranscript: (text: string) => void; // The action the player spoke
+  disabled?: boolean;
+}
+
+// Hold to speak an action, with the mouse, a finger, or Space/Enter while focused. Not shown without speech recognition.
+const PushToTalkButton: React.FC<PushToTalkButtonProps> = ({ onTranscript, disabled = false }) => {
+  const [listening, setListening] = useState(false);
+  const [message, setMessage] = useState('');
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
+  const [pushToTalk] = useState<PushToTalk | null>(() => createPushToTalk({
+    onTranscript: (text) => onTranscriptRef.current(text),
+    onListeningChange: setListening,
+    onError: setMessage,
+  }));
+
+  useEffect(() => () => pushToTalk?.stop(), [pushToTalk]);
+
+  if (!pushToTalk) return null;
+
+  const start = () => {
+    if (disabled) return;
+    setMessage('');
+    pushToTalk.start();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+      e.preventDefault();
+      start();
+    }
+  };
+
+  const handleKeyUp = (e: React.KeyboardEvent) => {
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      pushToTalk.stop();
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center">
+      <button
+        type="button"
+        onPointerDown={start}
+        onPointerUp={pushToTalk.stop}
+        onPointerLeave={pushToTalk.stop}
+        onKeyDown={handleKeyDown}
+        onKeyUp={handleKeyUp}
+        disabled={disabled}
+        aria-pressed={listening}
+        aria-label="Hold to speak your action"
+        title="Hold to speak your action"
+        className={`px-4 py-3 text-white font-semibold rounded-lg shadow-md transition-colors duration-150 disabled:opacity-50 disabled:cursor-not-allowed touch-none ${listening ? 'bg-red-600 animate-pulse' : 'bg-purple-800 hover:bg-purple-700'}`}
+      >
+        {listening ? '🎙️ Listening...' : '🎤 Hold to talk'}
+      </button>
+      {message && <p className="mt-1 text-xs text-yellow-300 max-w-[12rem] text-center" role="status">{message}</p>}
+    </div>
+  );
+};
+
+export default PushToTalkButton;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import type { RoundMode } from '../types';
+import { ROUND_MODE_LABELS, type RoomEntry } from '../services/multiplayer';
+
+interface RoomFormProps {
+  variant: 'host' | 'join'; // Hosting opens a room for the running game; joining is offered on the start screen
+  defaultName?: string;
+  onSubmit: (entry: RoomEntry) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none";
+const buttonClassName = "px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg shadow-md disabled:opacity-50 disabled:cursor-not-allowed";
+
+const RoomForm: React.FC<RoomFormProps> = ({ variant, defaultName = '', onSubmit, disabled = false }) => {
+  const [name, setName] = useState(defaultName);
+  const [code, setCode] = useState('');
+  const [mode, setMode] = useState<RoundMode>('simultaneous');
+  const [roundSeconds, setRoundSeconds] = useState(60);
+
+  const ready = name.trim() !== '' && (variant === 'host' || code.trim() !== '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ready) return;
+    onSubmit(variant === 'host'
+      ? { type: 'create', name: name.trim(), mode, roundSeconds }
+      : { type: 'join', code: code.trim().toUpperCase(), name: name.trim() });
+  };
+
+  return (
+    <details className="mt-6 text-left text-sm text-gray-300">
+      <summary className="cursor-pointer text-purple-300 font-semibold select-none">
+        {variant === 'host' ? 'Play Together' : 'Join a Shared Adventure'}
+      </summary>
+      <form onSubmit={handleSubmit} className="mt-3 space-y-2 pl-2">
+        <p className="text-gray-400">
+          {variant === 'host'
+            ? 'Open this adventure to friends: they join with the code, and each round everyone\'s actions are narrated together.'
+            : 'Enter the code the host gave you. The host\'s game narrates, so you only need a name.'}
+        </p>
+        <div className="flex flex-col md:flex-row gap-2">
+          <input className={inputClassName} value={name} onChange={(e) => setName(e.target.value)} placeholder="Your name" aria-label="Player name" maxLength={40} disabled={disabled} />
+          {variant === 'join' && (
+            <input className={`${inputClassName} uppercase tracking-widest md:w-40`} value={code} onChange={(e) => setCode(e.target.value)} placeholder="Code" aria-label="Join code" maxLength={6} disabled={disabled} />
+          )}
+        </div>
+        {variant === 'host' && (
+          <div className="flex flex-col md:flex-row gap-2">
+            <select className={inputClassName} value={mode} onChange={(e) => setMode(e.target.value as RoundMode)} aria-label="Round mode" disabled={disabled}>
+              {(Object.keys(ROUND_MODE_LABELS) as RoundMode[]).map(value => <option key={value} value={value}>{ROUND_MODE_LABELS[value]}</option>)}
+            </select>
+            {mode === 'simultaneous' && (
+              <label className="flex items-center gap-2 whitespace-nowrap">
+                <span>Round timer</span>
+                <input type="number" className={`${inputClassName} w-24`} value={roundSeconds} min={10} max={600} step={5} onChange={(e) => setRoundSeconds(Number(e.target.value))} aria-label="Round timer in seconds" disabled={disabled} />
+                <span>seconds</span>
+              </label>
+            )}
+          </div>
+        )}
+        <button type="submit" className={buttonClassName} disabled={disabled || !ready}>
+          {variant === 'host' ? 'Open Room' : 'Join'}
+        </button>
+      </form>
+    </details>
+  );
+};
+
+export default RoomForm;
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import type { RoomState } from '../types';
+
+interface RoomPanelProps {
+  room: RoomState;
+  playerId: string;
+  connected: boolean;
+  onLeave: () => void;
+}
+
+const smallButtonClassName = "px-2 py-1 text-xs rounded-md bg-gray-600 hover:bg-gray-500 text-white";
+
+// Seconds left until a timed round closes, ticking while the timer runs
+const useSecondsLeft = (deadline: number | null): number | null => {
+  const [now, setNow] = useState(Date.now);
+  useEffect(() => {
+    if (deadline === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+  return deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+};
+
+const describeRound = (room: RoomState, playerId: string, secondsLeft: number | null): string => {
+  const { round } = room;
+  if (round.status === 'narrating') {
+    return `The narrator is telling round ${round.number}...`;
+  }
+  if (room.mode === 'turns') {
+    if (round.turnPlayerId === playerId) return 'Your turn - what do you do?';
+    const current = room.players.find(player => player.id === round.turnPlayerId);
+    return current ? `Waiting for ${current.name} to act...` : 'Waiting for a player...';
+  }
+  const timer = secondsLeft === null ? '' : ` (${secondsLeft}s left)`;
+  return round.actions.some(action => action.playerId === playerId)
+    ? `Waiting for the others${timer} - you can still change your action`
+    : `Round ${round.number}: everyone acts at once${timer}`;
+};
+
+const RoomPanel: React.FC<RoomPanelProps> = ({ room, playerId, connected, onLeave }) => {
+  const secondsLeft = useSecondsLeft(room.round.deadline);
+
+  return (
+    <section className="mb-6 p-3 bg-gray-700 bg-opacity-50 border border-purple-500 border-opacity-30 rounded-lg text-sm text-gray-300" aria-label="Shared adventure">
+      <div className="flex flex-wrap items-center gap-2 justify-between">
+        <p>
+          Shared adventure <span className="font-mono text-lg text-white tracking-widest">{room.code}</span>
+          {!connected && <span className="ml-2 text-yellow-300 animate-pulse">Reconnecting...</span>}
+        </p>
+        <button type="button" onClick={onLeave} className={smallButtonClassName}>Leave</button>
+      </div>
+      <ul className="mt-2 flex flex-wrap gap-2" aria-label="Players">
+        {room.players.map(player => (
+          <li key={player.id} className={`px-2 py-1 rounded-md bg-gray-800 ${player.connected ? 'text-gray-100' : 'text-gray-500'}`} title={player.connected ? undefined : 'Disconnected'}>
+            {player.isHost && <span title="Host">👑 </span>}
+            {player.name}
+            {player.id === playerId && ' (you)'}
+            {player.submitted && <span className="text-green-300" title="Has acted this round"> ✓</span>}
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-purple-300" aria-live="polite">{describeRound(room, playerId, secondsLeft)}</p>
+      {room.round.actions.length > 0 && (
+        <ul className="mt-1 text-gray-400">
+          {room.round.actions.map(action => <li key={action.playerId}>{action.name}: {action.text}</li>)}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default RoomPanel;
@@ -0,0 +1,55 @@
+import React from 'react';
+import type { SaveSlotSummary } from '../types';
+
+interface SaveLoadMenuProps {
+  slots: SaveSlotSummary[];
+  onLoad: (id: string) => void;
+  onDelete: (id: string) => void;
+  disabled?: boolean;
+}
+
+const SaveLoadMenu: React.FC<SaveLoadMenuProps> = ({ slots, onLoad, onDelete, disabled = false }) => {
+  if (slots.length === 0) return null;
+
+  return (
+    <div className="mt-8 text-left">
+      <h2 className="text-xl font-semibold text-purple-300 mb-3">Continue a Saved Adventure</h2>
+      <ul className="space-y-3">
+        {slots.map(slot => (
+          <li key={slot.id} className="flex items-center gap-4 bg-gray-700 bg-opacity-50 border border-gray-600 rounded-lg p-3">
+            <div className="w-16 h-16 flex-shrink-0 rounded-md overflow-hidden bg-gray-800 flex items-center justify-center">
+              {slot.thumbnailUrl ? (
+                <img src={slot.thumbnailUrl} alt={`Scene from ${slot.name}`} className="w-full h-full object-cover" />
+              ) : (
+                <span className="text-2xl" aria-hidden="true">📜</span>
+              )}
+            </div>
+            <div className="flex-grow min-w-0">
+              <p className="font-semibold text-white truncate">{slot.name}</p>
+              <p className="text-sm text-gray-400">
+                {new Date(slot.savedAt).toLocaleString()} · {slot.turnCount} {slot.turnCount === 1 ? 'turn' : 'turns'}
+              </p>
+            </div>
+            <button
+              onClick={() => onLoad(slot.id)}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg shadow-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-purple-400 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={disabled}
+            >
+              Load
+            </button>
+            <button
+              onClick={() => onDelete(slot.id)}
+              className="px-3 py-2 bg-gray-600 hover:bg-red-700 text-white rounded-lg shadow-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={disabled}
+              aria-label={`Delete save ${slot.name}`}
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SaveLoadMenu;
@@ -0,0 +1,36 @@
+import React from 'react';
+import type { TurnNode } from '../types';
+
+interface SceneFilmstripProps {
+  turns: TurnNode[];
+  selectedTurnId: string | null;
+  onSelect: (turnId: string) => void;
+}
+
+// Thumbnails of every illustrated turn on the current branch, to flip back through earlier scenes
+const SceneFilmstrip: React.FC<SceneFilmstripProps> = ({ turns, selectedTurnId, onSelect }) => {
+  const illustrated = turns.map((turn, index) => ({ turn, number: index + 1 })).filter(({ turn }) => turn.imageUrl);
+  if (illustrated.length < 2) return null;
+
+  return (
+    <div className="-mt-4 mb-6 flex gap-2 overflow-x-auto pb-2 scrollbar-thin scrollbar-thumb-purple-600 scrollbar-track-gray-800" role="listbox" aria-label="Scene gallery">
+      {illustrated.map(({ turn, number }) => (
+        <button
+          key={turn.id}
+          type="button"
+          role="option"
+          aria-selected={turn.id === selectedTurnId}
+          onClick={() => onSelect(turn.id)}
+          className={`w-20 h-14 flex-shrink-0 rounded-md overflow-hidden border-2 transition-colors duration-150 ${
+            turn.id === selectedTurnId ? 'border-purple-400' : 'border-transparent opacity-70 hover:opacity-100'
+          }`}
+          title={turn.action ? `Turn ${number}: ${turn.action}` : 'Opening scene'}
+        >
+          <img src={turn.imageUrl ?? undefined} alt={`Scene ${number}`} className="w-full h-full object-cover" />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default SceneFilmstrip;
@@ -0,0 +1,101 @@
+import React from 'react';
+import type { GameSettings, NarrationVoice } from '../types';
+import { canNarrate, isSpeechRecognitionSupported } from '../services/voice';
+
+interface SettingsPanelProps {
+  settings: GameSettings;
+  onChange: (settings: GameSettings) => void;
+  voices: NarrationVoice[]; // The browser's and the proxy's narration voices
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, voices }) => {
+  const narrationAvailable = canNarrate(voices);
+  const pushToTalkAvailable = isSpeechRecognitionSupported();
+
+  return (
+    <details className="mt-6 text-left text-sm text-gray-300">
+      <summary className="cursor-pointer text-purple-300 font-semibold select-none">Settings</summary>
+      <div className="mt-3 space-y-2 pl-2">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.choicesOnly}
+            onChange={(e) => onChange({ ...settings, choicesOnly: e.target.checked })}
+            className="accent-purple-500"
+          />
+          <span>Choices only (gamebook mode) - pick from suggested actions instead of typing</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.textOnly}
+            onChange={(e) => onChange({ ...settings, textOnly: e.target.checked })}
+            className="accent-purple-500"
+          />
+          <span>Text only - skip scene artwork entirely</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.modelModeration}
+            onChange={(e) => onChange({ ...settings, modelModeration: e.target.checked })}
+            className="accent-purple-500"
+          />
+          <span>Strict moderation - also ask the storyteller to check actions, scenes and picture prompts against the content rating (slower)</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.narration && narrationAvailable}
+            onChange={(e) => onChange({ ...settings, narration: e.target.checked })}
+            disabled={!narrationAvailable}
+            className="accent-purple-500"
+          />
+          <span>Narration - read each new scene aloud{!narrationAvailable && ' (not available: this browser has no voices and the server no text-to-speech engine)'}</span>
+        </label>
+        {settings.narration && narrationAvailable && (
+          <div className="flex flex-wrap items-center gap-3 pl-6">
+            <label className="flex items-center gap-2">
+              <span>Voice</span>
+              <select
+                value={settings.narrationVoice}
+                onChange={(e) => onChange({ ...settings, narrationVoice: e.target.value })}
+                className="p-1 bg-gray-700 border border-gray-600 rounded text-gray-100 max-w-[16rem]"
+              >
+                <option value="">Default</option>
+                {voices.map(voice => (
+                  <option key={voice.id} value={voice.id}>{voice.engine === 'server' ? `${voice.name} (server)` : voice.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span>Speed</span>
+              <input
+                type="range"
+                min={0.5}
+                max={2}
+                step={0.1}
+                value={settings.narrationRate}
+                onChange={(e) => onChange({ ...settings, narrationRate: Number(e.target.value) })}
+                className="accent-purple-500"
+              />
+              <span className="w-10">{settings.narrationRate.toFixed(1)}x</span>
+            </label>
+          </div>
+        )}
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.pushToTalk && pushToTalkAvailable}
+            onChange={(e) => onChange({ ...settings, pushToTalk: e.target.checked })}
+            disabled={!pushToTalkAvailable}
+            className="accent-purple-500"
+          />
+          <span>Push to talk - hold the microphone button and speak your action{!pushToTalkAvailable && ' (not available: this browser has no speech recognition)'}</span>
+        </label>
+      </div>
+    </details>
+  );
+};
+
+export default SettingsPanel;
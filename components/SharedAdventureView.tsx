@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { RoomState, SharedStory } from '../types';
+import CharacterPanel from './CharacterPanel';
+import RoomPanel from './RoomPanel';
+import SuggestedActions from './SuggestedActions';
+import PushToTalkButton from './PushToTalkButton';
+
+interface SharedAdventureViewProps {
+  room: RoomState;
+  story: SharedStory | null; // null until the host has shared the story
+  playerId: string;
+  connected: boolean;
+  pushToTalk: boolean;
+  onAction: (action: string) => void;
+  onLeave: () => void;
+}
+
+// A guest's screen: the host's story as it was last shared, and the room's round to act in
+const SharedAdventureView: React.FC<SharedAdventureViewProps> = ({ room, story, playerId, connected, pushToTalk, onAction, onLeave }) => {
+  const [playerAction, setPlayerAction] = useState('');
+  const transcriptRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    transcriptRef.current?.scrollTo({ top: transcriptRef.current.scrollHeight, behavior: 'smooth' });
+  }, [story?.transcript]);
+
+  const canAct = connected && room.round.status === 'collecting' && (room.mode === 'simultaneous' || room.round.turnPlayerId === playerId);
+
+  const submit = (action: string) => {
+    if (!action.trim() || !canAct) return;
+    onAction(action.trim());
+    setPlayerAction('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(playerAction);
+  };
+
+  return (
+    <>
+      <RoomPanel room={room} playerId={playerId} connected={connected} onLeave={onLeave} />
+      {story?.imageUrl && (
+        <div className="mb-6 h-72 md:h-96 w-full bg-gray-700 rounded-lg shadow-inner overflow-hidden border-2 border-purple-500 border-opacity-30">
+          <img src={story.imageUrl} alt="Current game scene" className="w-full h-full object-cover" />
+        </div>
+      )}
+      <div className="flex flex-col md:flex-row gap-4 mb-6">
+        <div
+          ref={transcriptRef}
+          className="flex-grow h-64 md:h-80 bg-gray-700 bg-opacity-50 p-4 rounded-lg shadow-inner overflow-y-auto whitespace-pre-wrap text-lg leading-relaxed border border-gray-600"
+          aria-live="polite"
+        >
+          {story?.transcript || "Waiting for the host's story..."}
+        </div>
+        {story && (
+          <div className="md:w-56 flex-shrink-0 md:h-80 overflow-y-auto">
+            <CharacterPanel state={story.gameState} character={story.character} />
+          </div>
+        )}
+      </div>
+      {story && <p className="-mt-4 mb-4 text-xs text-gray-500 text-right">{story.campaignName}, narrated by the host's game</p>}
+
+      <SuggestedActions actions={story?.suggestedActions ?? []} onChoose={submit} disabled={!canAct} />
+      <form onSubmit={handleSubmit} className="flex flex-col md:flex-row gap-3">
+        <input
+          type="text"
+          value={playerAction}
+          onChange={(e) => setPlayerAction(e.target.value)}
+          placeholder="What do you do?"
+          className="flex-grow bg-gray-700 border border-gray-600 rounded-lg p-3 text-white placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-colors duration-200"
+          disabled={!canAct}
+          aria-label="Player action input"
+          maxLength={500}
+        />
+        <button
+          type="submit"
+          className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg shadow-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-purple-400 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed min-w-[120px]"
+          disabled={!canAct || !playerAction.trim()}
+        >
+          Send Action
+        </button>
+        {pushToTalk && <PushToTalkButton onTranscript={submit} disabled={!canAct} />}
+      </form>
+    </>
+  );
+};
+
+export default SharedAdventureView;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import type { SaveSlotSummary, StorybookFormat, StorybookOptions } from '../types';
+
+interface StorybookExportProps {
+  onExport: (format: StorybookFormat, options: StorybookOptions, saveId?: string) => void;
+  slots?: SaveSlotSummary[]; // When given, the player picks which saved adventure to export
+  disabled?: boolean;
+}
+
+const FORMAT_LABELS: Record<StorybookFormat, string> = {
+  html: 'HTML page (single file, images embedded)',
+  epub: 'EPUB e-book',
+  markdown: 'Markdown bundle (.zip with images)',
+};
+
+const StorybookExport: React.FC<StorybookExportProps> = ({ onExport, slots, disabled = false }) => {
+  const [format, setFormat] = useState<StorybookFormat>('html');
+  const [includeActions, setIncludeActions] = useState<boolean>(true);
+  const [selectedSaveId, setSelectedSaveId] = useState<string>('');
+
+  if (slots && slots.length === 0) return null;
+  const saveId = slots ? selectedSaveId || slots[0].id : undefined;
+
+  return (
+    <details className="mt-6 text-left text-sm text-gray-300">
+      <summary className="cursor-pointer text-purple-300 font-semibold select-none">
+        {slots ? 'Export a Saved Adventure as a Storybook' : 'Export as Storybook'}
+      </summary>
+      <div className="mt-3 space-y-2 pl-2">
+        {slots && (
+          <select
+            value={saveId}
+            onChange={(e) => setSelectedSaveId(e.target.value)}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white"
+            aria-label="Saved adventure to export"
+            disabled={disabled}
+          >
+            {slots.map(slot => <option key={slot.id} value={slot.id}>{slot.name}</option>)}
+          </select>
+        )}
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as StorybookFormat)}
+          className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white"
+          aria-label="Storybook format"
+          disabled={disabled}
+        >
+          {(Object.keys(FORMAT_LABELS) as StorybookFormat[]).map(option => (
+            <option key={option} value={option}>{FORMAT_LABELS[option]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={includeActions}
+            onChange={(e) => setIncludeActions(e.target.checked)}
+            className="accent-purple-500"
+            disabled={disabled}
+          />
+          <span>Show my commands between scenes</span>
+        </label>
+        <button
+          type="button"
+          onClick={() => onExport(format, { includeActions }, saveId)}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg shadow-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-purple-400 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={disabled}
+        >
+          Export Storybook
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default StorybookExport;
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface SuggestedActionsProps {
+  actions: string[];
+  onChoose: (action: string) => void;
+  disabled?: boolean;
+}
+
+const SuggestedActions: React.FC<SuggestedActionsProps> = ({ actions, onChoose, disabled = false }) => {
+  if (actions.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-3" role="group" aria-label="Suggested actions">
+      {actions.map(action => (
+        <button
+          key={action}
+          type="button"
+          onClick={() => onChoose(action)}
+          className="px-4 py-2 bg-gray-700 hover:bg-purple-700 border border-purple-500 border-opacity-50 text-purple-100 rounded-lg shadow-md transition-all duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-purple-400 focus:ring-opacity-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={disabled}
+        >
+          {action}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default SuggestedActions;
@@ -0,0 +1,93 @@
+import React from 'react';
+import type { StoryTimeline, TurnNode } from '../types';
+import { getBranchTips, getChildTurns, getTimelinePath } from '../services/timeline';
+
+interface TimelineViewProps {
+  timeline: StoryTimeline;
+  onSelect: (id: string) => void;
+  disabled?: boolean;
+}
+
+const turnLabel = (node: TurnNode): string => node.action ?? 'Opening scene';
+
+const TimelineView: React.FC<TimelineViewProps> = ({ timeline, onSelect, disabled = false }) => {
+  const currentPathIds = new Set(getTimelinePath(timeline, timeline.currentId).map(node => node.id));
+  const branchTips = getBranchTips(timeline);
+
+  const renderTurns = (parentId: string | null): React.ReactNode => {
+    const children = getChildTurns(timeline, parentId);
+    if (children.length === 0) return null;
+
+    return (
+      <ul className={parentId ? 'ml-3 pl-3 border-l border-gray-600 space-y-1' : 'space-y-1'}>
+        {children.map(node => (
+          <li key={node.id}>
+            <button
+              type="button"
+              onClick={() => onSelect(node.id)}
+              className={`text-left w-full px-2 py-1 rounded-md transition-colors duration-150 disabled:cursor-not-allowed ${
+                node.id === timeline.currentId
+                  ? 'bg-purple-700 text-white'
+                  : currentPathIds.has(node.id) ? 'text-purple-200 hover:bg-gray-600' : 'text-gray-400 hover:bg-gray-600'
+              }`}
+              disabled={disabled || node.id === timeline.currentId}
+              title={node.response.sceneDescription}
+            >
+              <span className="truncate block">{turnLabel(node)}</span>
+              <span className="text-xs text-gray-400">{node.gameState.location} · HP {node.gameState.hp}/{node.gameState.maxHp}</span>
+            </button>
+            {renderTurns(node.id)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <details className="mt-6 text-left text-sm text-gray-300">
+      <summary className="cursor-pointer text-purple-300 font-semibold select-none">
+        Timeline ({branchTips.length} {branchTips.length === 1 ? 'branch' : 'branches'})
+      </summary>
+      <div className="mt-3 space-y-4 pl-2">
+        <p className="text-gray-400">Pick any earlier turn to rewind to it. Acting from there starts a new branch; the old one is kept.</p>
+        <div className="max-h-80 overflow-y-auto">{renderTurns(null)}</div>
+
+        {branchTips.length > 1 && (
+          <div className="overflow-x-auto">
+            <h3 className="text-purple-300 font-semibold mb-2">Compare branches</h3>
+            <table className="w-full text-left">
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="pr-3 font-normal">Branch</th>
+                  <th className="pr-3 font-normal">Turns</th>
+                  <th className="pr-3 font-normal">Location</th>
+                  <th className="pr-3 font-normal">HP</th>
+                  <th className="pr-3 font-normal">Inventory</th>
+                  <th className="pr-3 font-normal">Last action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {branchTips.map((tip, index) => (
+                  <tr key={tip.id} className={currentPathIds.has(tip.id) ? 'text-purple-200' : ''}>
+                    <td className="pr-3">
+                      <button type="button" onClick={() => onSelect(tip.id)} className="underline disabled:no-underline disabled:cursor-not-allowed" disabled={disabled || tip.id === timeline.currentId}>
+                        #{index + 1}
+                      </button>
+                    </td>
+                    <td className="pr-3">{getTimelinePath(timeline, tip.id).length}</td>
+                    <td className="pr-3">{tip.gameState.location}</td>
+                    <td className="pr-3">{tip.gameState.hp}/{tip.gameState.maxHp}</td>
+                    <td className="pr-3">{tip.gameState.inventory.join(', ') || '-'}</td>
+                    <td className="pr-3">{turnLabel(tip)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default TimelineView;
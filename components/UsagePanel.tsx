@@ -0,0 +1,78 @@
+import React from 'react';
+import type { UsageBudget, UsageReport } from '../types';
+import type { AdventureUsage } from '../services/usage';
+
+interface UsagePanelProps {
+  usage: AdventureUsage;
+  report: UsageReport | null; // null until the proxy's report has loaded, or when it can't be reached
+}
+
+const formatNumber = (value: number) => value.toLocaleString();
+const formatSeconds = (ms: number | null) => ms === null ? '-' : `${(ms / 1000).toFixed(1)}s`;
+const formatCost = (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+const formatModels = (models: Record<string, number>) =>
+  Object.entries(models).map(([model, turns]) => `${model} (${turns})`).join(', ') || '-';
+
+// "1,200 of 5,000 (warn at 4,000)", or just the amount when there is no budget
+const formatAgainstBudget = (used: number, budget: UsageBudget) => {
+  const limits = [
+    budget.hard > 0 && `of ${formatNumber(budget.hard)}`,
+    budget.soft > 0 && `(warn at ${formatNumber(budget.soft)})`,
+  ].filter(Boolean);
+  return [formatNumber(used), ...limits].join(' ');
+};
+
+const Row: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between gap-4">
+    <dt className="text-gray-400">{label}</dt>
+    <dd className="text-right text-gray-100">{value}</dd>
+  </div>
+);
+
+// Tokens, time and estimated cost of this adventure, and of everyone's play on the proxy today against its budgets
+const UsagePanel: React.FC<UsagePanelProps> = ({ usage, report }) => {
+  const today = report?.today;
+
+  return (
+    <details className="mt-6 text-left text-sm text-gray-300">
+      <summary className="cursor-pointer text-purple-300 font-semibold select-none">Usage & Costs</summary>
+      <div className="mt-3 space-y-4 pl-2">
+        {report && report.warnings.length > 0 && (
+          <ul className="text-yellow-300" aria-label="Usage warnings">
+            {report.warnings.map(warning => <li key={warning}>⚠️ {warning}</li>)}
+          </ul>
+        )}
+        <section>
+          <h3 className="text-purple-300 mb-1">This adventure</h3>
+          <dl className="space-y-1">
+            <Row label="Turns" value={usage.meteredTurns < usage.turns ? `${usage.turns} (${usage.meteredTurns} metered)` : String(usage.turns)} />
+            <Row label="Tokens in / out" value={`${formatNumber(usage.inputTokens)} / ${formatNumber(usage.outputTokens)}`} />
+            <Row label="Average narration time" value={formatSeconds(usage.averageTurnMs)} />
+            <Row label="Retries" value={String(usage.retries)} />
+            <Row label="Models" value={formatModels(usage.models)} />
+            <Row label="Images" value={`${usage.images} (average wait ${formatSeconds(usage.averageImageMs)})`} />
+            <Row label="Estimated narration cost" value={formatCost(usage.estimatedCostUsd)} />
+          </dl>
+        </section>
+        {report && today ? (
+          <section>
+            <h3 className="text-purple-300 mb-1">Today on the server ({today.date}, all players)</h3>
+            <dl className="space-y-1">
+              <Row label="Turns" value={formatAgainstBudget(today.turns, report.budgets.dailyTurns)} />
+              <Row label="Tokens" value={formatAgainstBudget(today.inputTokens + today.outputTokens, report.budgets.dailyTokens)} />
+              <Row label="Average narration time" value={formatSeconds(today.averageTurnMs)} />
+              <Row label="Retries" value={String(today.retries)} />
+              <Row label="Paid images" value={formatAgainstBudget(today.paidImages, report.budgets.dailyImages)} />
+              <Row label="All images" value={`${today.images} (${today.imageFailures} failed, average ${formatSeconds(today.averageImageMs)})`} />
+              <Row label="Estimated cost" value={formatCost(today.estimatedCostUsd)} />
+            </dl>
+          </section>
+        ) : (
+          <p className="text-gray-500">The server's usage report is unavailable.</p>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,38 @@
+// The proxy's time source for retries, backoff and circuit breakers. Replaying a provider tape switches it to
+// virtual time: waits return at once and move the clock forward instead, so a replay runs in milliseconds and
+// always plays out the same way however long the recorded backoff delays were.
+
+let virtualNow = null; // null while the clock follows real time
+
+const now = () => (virtualNow === null ? Date.now() : virtualNow);
+
+const sleep = (ms) => {
+  if (virtualNow === null) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+  virtualNow += ms;
+  return Promise.resolve();
+};
+
+const useVirtualTime = () => {
+  if (virtualNow === null) {
+    virtualNow = Date.now();
+  }
+};
+
+// Moves virtual time forward, e.g. past a circuit breaker's timeout between two replayed turns
+const advance = (ms) => {
+  if (virtualNow === null) {
+    throw new Error('The clock can only be advanced in virtual time');
+  }
+  virtualNow += ms;
+  return virtualNow;
+};
+
+module.exports = {
+  now,
+  sleep,
+  useVirtualTime,
+  advance,
+  isVirtual: () => virtualNow !== null,
+};
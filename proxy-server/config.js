@@ -0,0 +1,91 @@
+const dotenv = require('dotenv');
+const path = require('path');
+
+// Load environment variables from the main .env.local file
+dotenv.config({ path: path.join(__dirname, '..', '.env.local') });
+
+// e.g. DAILY_TOKEN_SOFT_LIMIT and DAILY_TOKEN_HARD_LIMIT
+const readBudget = (name) => ({
+  soft: Number(process.env[`${name}_SOFT_LIMIT`]) || 0,
+  hard: Number(process.env[`${name}_HARD_LIMIT`]) || 0,
+});
+
+// All provider credentials live here on the server - nothing below is ever sent to the browser
+module.exports = {
+  port: Number(process.env.PROXY_PORT) || 3001,
+
+  gemini: {
+    apiKey: process.env.GEMINI_API_KEY,
+    // Failover order: the primary model first, then GEMINI_FALLBACK_MODELS (comma separated)
+    models: [
+      process.env.GEMINI_MODEL || 'gemini-2.0-flash',
+      ...(process.env.GEMINI_FALLBACK_MODELS || 'gemini-1.5-flash').split(',').map(model => model.trim()).filter(Boolean),
+    ],
+  },
+
+  cloudflare: {
+    apiKey: process.env.CLOUDFLARE_API_KEY,
+    accountId: process.env.CLOUDFLARE_ACCOUNT_ID,
+    email: process.env.CLOUDFLARE_EMAIL,
+  },
+
+  images: {
+    // Fallback order (comma separated): cloudflare, local and/or placeholder
+    providers: (process.env.IMAGE_PROVIDERS || 'cloudflare,placeholder').split(',').map(name => name.trim()).filter(Boolean),
+    // An Automatic1111-compatible server for the local provider
+    localUrl: (process.env.LOCAL_IMAGE_URL || 'http://127.0.0.1:7860').replace(/\/+$/, ''),
+  },
+
+  storySessions: {
+    idleTimeoutMs: Number(process.env.STORY_SESSION_IDLE_MINUTES || 120) * 60 * 1000,
+  },
+
+  imageJobs: {
+    concurrency: Number(process.env.IMAGE_JOB_CONCURRENCY) || 2,
+    // How long a finished image waits to be collected before it is dropped
+    resultTtlMs: Number(process.env.IMAGE_JOB_RESULT_MINUTES || 10) * 60 * 1000,
+  },
+
+  rooms: {
+    maxPlayers: Number(process.env.ROOM_MAX_PLAYERS) || 6,
+    // How long a shared adventure stays open after its last player disconnects
+    idleTimeoutMs: Number(process.env.ROOM_IDLE_MINUTES || 30) * 60 * 1000,
+  },
+
+  usage: {
+    // Estimated prices in US dollars, for the usage report; the defaults are Gemini 2.0 Flash's paid tier
+    prices: {
+      inputPerMillionTokens: Number(process.env.GEMINI_INPUT_PRICE_PER_MILLION ?? 0.1),
+      outputPerMillionTokens: Number(process.env.GEMINI_OUTPUT_PRICE_PER_MILLION ?? 0.4),
+      perImage: Number(process.env.IMAGE_PRICE ?? 0),
+    },
+    // Soft budgets warn, hard budgets refuse; 0 (the default) means no limit. Days are UTC.
+    budgets: {
+      sessionTokens: readBudget('SESSION_TOKEN'),
+      dailyTokens: readBudget('DAILY_TOKEN'),
+      dailyTurns: readBudget('DAILY_TURN'),
+      dailyImages: readBudget('DAILY_IMAGE'),
+    },
+  },
+
+  tts: {
+    // An OpenAI-compatible speech endpoint, e.g. http://localhost:8880/v1/audio/speech; unset leaves narration to the browser
+    url: process.env.TTS_URL || '',
+    model: process.env.TTS_MODEL || 'tts-1',
+    // Voices offered to players (comma separated); the first is the default
+    voices: (process.env.TTS_VOICES || '').split(',').map(voice => voice.trim()).filter(Boolean),
+    format: process.env.TTS_FORMAT || 'mp3',
+  },
+
+  providerTape: {
+    // 'record' writes every story and image provider call to the tape file; 'replay' answers them from it, offline
+    mode: process.env.PROVIDER_TAPE_MODE || 'off',
+    file: path.resolve(process.env.PROVIDER_TAPE || path.join(__dirname, 'tapes', 'session.json')),
+  },
+
+  imageCache: {
+    dir: process.env.IMAGE_CACHE_DIR || path.join(__dirname, '.image-cache'),
+    maxBytes: Number(process.env.IMAGE_CACHE_MAX_MB || 500) * 1024 * 1024,
+    maxFiles: Number(process.env.IMAGE_CACHE_MAX_FILES) || 2000,
+  },
+};
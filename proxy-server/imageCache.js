@@ -0,0 +1,102 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const config = require('./config');
+
+// Generated images on disk, keyed by everything that went into them: repeats cost nothing and clients get
+// short URLs instead of data URLs. Least recently used images are evicted once the size or file limit is hit.
+
+const FILE_PATTERN = /^([a-f0-9]{64})\.(png|svg)$/;
+
+// Key -> { size, extension }; Map order doubles as recency, oldest first
+const entries = new Map();
+let totalBytes = 0;
+
+const fileFor = (key) => path.join(config.imageCache.dir, `${key}.${entries.get(key).extension}`);
+
+// The provider is part of the key, so a placeholder drawn during an outage never stands in for the real picture later
+const keyFor = (params, providerName) => crypto
+  .createHash('sha256')
+  .update(JSON.stringify([providerName, params.prompt, params.style, params.negativePrompt, params.seed, params.width, params.height, params.steps, params.guidance]))
+  .digest('hex');
+
+const urlFor = (key) => `/api/images/files/${key}.${entries.get(key).extension}`;
+
+const isOverLimit = () => totalBytes > config.imageCache.maxBytes || entries.size > config.imageCache.maxFiles;
+
+// Drops the least recently used images until the cache is within its limits. The image just stored is kept, so one
+// larger than the whole budget is still served until the next image pushes it out.
+const evict = (keep) => {
+  for (const [key, entry] of entries) {
+    if (!isOverLimit()) break;
+    if (key === keep) continue;
+    const file = fileFor(key);
+    entries.delete(key);
+    totalBytes -= entry.size;
+    fs.promises.unlink(file).catch(error => console.warn(`Could not evict cached image ${key}:`, error.message));
+  }
+};
+
+// Moves an image to the back of the eviction order; the file time keeps that order across restarts
+const touch = (key) => {
+  const entry = entries.get(key);
+  entries.delete(key);
+  entries.set(key, entry);
+  const now = new Date();
+  fs.promises.utimes(fileFor(key), now, now).catch(() => {});
+};
+
+// Picks up the images earlier runs left behind
+const load = () => {
+  fs.mkdirSync(config.imageCache.dir, { recursive: true });
+  const found = fs.readdirSync(config.imageCache.dir)
+    .map(name => FILE_PATTERN.exec(name))
+    .filter(Boolean)
+    .map(([name, key, extension]) => ({ key, extension, stat: fs.statSync(path.join(config.imageCache.dir, name)) }))
+    .sort((a, b) => a.stat.mtimeMs - b.stat.mtimeMs);
+
+  for (const { key, extension, stat } of found) {
+    entries.set(key, { size: stat.size, extension });
+    totalBytes += stat.size;
+  }
+  evict();
+};
+
+// Resolves to the image's URL if it is cached, marking it as recently used
+const lookup = (key) => {
+  if (!entries.has(key)) return null;
+  touch(key);
+  return urlFor(key);
+};
+
+const store = async (key, data, extension) => {
+  if (entries.has(key)) return lookup(key); // Two identical requests ran side by side
+
+  // Write then rename, so a crash never leaves a half-written image under a valid name
+  const file = path.join(config.imageCache.dir, `${key}.${extension}`);
+  const temporaryFile = `${file}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temporaryFile, data);
+  await fs.promises.rename(temporaryFile, file);
+  entries.set(key, { size: data.length, extension });
+  totalBytes += data.length;
+  evict(key);
+  return urlFor(key);
+};
+
+// The path of a cached image file for the file route, or null if the name is not a cached image
+const getFilePath = (fileName) => {
+  const match = FILE_PATTERN.exec(fileName);
+  if (!match || entries.get(match[1])?.extension !== match[2]) return null;
+  touch(match[1]);
+  return fileFor(match[1]);
+};
+
+load();
+
+module.exports = {
+  keyFor,
+  lookup,
+  store,
+  getFilePath,
+  getStats: () => ({ files: entries.size, bytes: totalBytes }),
+};
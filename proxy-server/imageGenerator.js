@@ -0,0 +1,178 @@
+const crypto = require('crypto');
+const imageCache = require('./imageCache');
+const clock = require('./clock');
+const providerTape = require('./providerTape');
+const usage = require('./usage');
+const { ImageError, getProviders } = require('./imageProviders');
+
+// Text-to-image requests, shared by the direct route and the job queue: validation, defaults and provider fallback
+
+// Campaigns choose their own art style; this is used when a request doesn't name one
+const DEFAULT_ART_STYLE = 'epic fantasy art';
+const MAX_ART_STYLE_LENGTH = 200;
+const MAX_NEGATIVE_PROMPT_LENGTH = 500;
+
+// Output sizes per aspect ratio, all within the model's limits
+const ASPECT_RATIOS = {
+  '1:1': [1024, 1024],
+  '4:3': [1152, 896],
+  '3:4': [896, 1152],
+  '3:2': [1216, 832],
+  '2:3': [832, 1216],
+  '16:9': [1344, 768],
+  '9:16': [768, 1344],
+};
+
+// Explicit sizes must be multiples of 64 within these bounds
+const MIN_SIZE = 256;
+const MAX_SIZE = 2048;
+const MAX_STEPS = 20; // Cloudflare's lightning model's ceiling
+const MAX_GUIDANCE = 30;
+const MAX_SEED = 2 ** 32 - 1;
+
+const DEFAULT_STEPS = 20;
+const DEFAULT_GUIDANCE = 7.5;
+
+const isIntegerBetween = (value, min, max) => Number.isInteger(value) && value >= min && value <= max;
+
+const isValidSize = (value) => isIntegerBetween(value, MIN_SIZE, MAX_SIZE) && value % 64 === 0;
+
+// Returns an error message for an invalid request body, or null if it is fine. Everything but the prompt is optional.
+const validateImageRequest = ({ prompt, style, negativePrompt, seed, aspectRatio, width, height, steps, guidance }) => {
+  if (!prompt || typeof prompt !== 'string') {
+    return 'Prompt is required';
+  }
+  if (style !== undefined && (typeof style !== 'string' || style.length > MAX_ART_STYLE_LENGTH)) {
+    return `style must be a string of at most ${MAX_ART_STYLE_LENGTH} characters`;
+  }
+  if (negativePrompt !== undefined && (typeof negativePrompt !== 'string' || negativePrompt.length > MAX_NEGATIVE_PROMPT_LENGTH)) {
+    return `negativePrompt must be a string of at most ${MAX_NEGATIVE_PROMPT_LENGTH} characters`;
+  }
+  if (seed !== undefined && !isIntegerBetween(seed, 0, MAX_SEED)) {
+    return `seed must be an integer from 0 to ${MAX_SEED}`;
+  }
+  if (aspectRatio !== undefined && !ASPECT_RATIOS[aspectRatio]) {
+    return `aspectRatio must be one of ${Object.keys(ASPECT_RATIOS).join(', ')}`;
+  }
+  if (width !== undefined || height !== undefined) {
+    if (aspectRatio !== undefined) {
+      return 'Give either aspectRatio or width and height, not both';
+    }
+    if (!isValidSize(width) || !isValidSize(height)) {
+      return `width and height must both be multiples of 64 from ${MIN_SIZE} to ${MAX_SIZE}`;
+    }
+  }
+  if (steps !== undefined && !isIntegerBetween(steps, 1, MAX_STEPS)) {
+    return `steps must be an integer from 1 to ${MAX_STEPS}`;
+  }
+  if (guidance !== undefined && !(typeof guidance === 'number' && guidance >= 0 && guidance <= MAX_GUIDANCE)) {
+    return `guidance must be a number from 0 to ${MAX_GUIDANCE}`;
+  }
+  return null;
+};
+
+// Fills in the defaults for a validated request. A request without a seed gets a random one, so it is still cacheable.
+const resolveImageParams = ({ prompt, style, negativePrompt, seed, aspectRatio, width, height, steps, guidance }) => {
+  const [defaultWidth, defaultHeight] = ASPECT_RATIOS[aspectRatio || '1:1'];
+  return {
+    prompt,
+    style: (style && style.trim()) || DEFAULT_ART_STYLE,
+    negativePrompt: (negativePrompt && negativePrompt.trim()) || '',
+    seed: seed ?? crypto.randomInt(MAX_SEED),
+    width: width ?? defaultWidth,
+    height: height ?? defaultHeight,
+    steps: steps ?? DEFAULT_STEPS,
+    guidance: guidance ?? DEFAULT_GUIDANCE,
+  };
+};
+
+// A provider that just failed is skipped for this long, so an outage doesn't make every image wait on it first
+const FAILED_PROVIDER_COOLDOWN_MS = 30 * 1000;
+// How long a health check result is reported before checking again
+const HEALTH_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Provider name -> { healthy, error, checkedAt }, from health checks and from real generations
+const providerHealth = new Map();
+
+const recordHealth = (provider, error = null) => {
+  providerHealth.set(provider.name, { healthy: !error, error: error ? error.message : null, checkedAt: clock.now() });
+};
+
+const isCoolingDown = (provider) => {
+  const health = providerHealth.get(provider.name);
+  return !!health && !health.healthy && clock.now() - health.checkedAt < FAILED_PROVIDER_COOLDOWN_MS;
+};
+
+const isConfigured = () => getProviders().some(provider => provider.isConfigured());
+
+/**
+ * Resolves to the proxy URL of an image for resolved params (see resolveImageParams). Providers are tried in the
+ * IMAGE_PROVIDERS order, each one's earlier result for the same params coming from the disk cache. Every call is
+ * metered, and providers that aren't free are skipped once the hard daily image budget is used up.
+ * Pass an AbortSignal to stop waiting on a provider when the image is no longer wanted.
+ */
+const generateImage = async (params, signal) => {
+  let lastError = null;
+  for (const provider of getProviders()) {
+    const cacheKey = imageCache.keyFor(params, provider.name);
+    // While a tape is recorded or replayed every image goes to its provider, so both runs make the same calls
+    const cachedUrl = providerTape.isActive() ? null : imageCache.lookup(cacheKey);
+    if (cachedUrl) {
+      return cachedUrl;
+    }
+    if (!provider.isConfigured() || isCoolingDown(provider)) continue;
+
+    // Past the hard image budget only free providers are used, so a local server or the placeholder can still stand in
+    if (!provider.free) {
+      try {
+        usage.checkImageBudget();
+      } catch (error) {
+        lastError = new ImageError(error.message, error.status);
+        continue;
+      }
+    }
+
+    const startedAt = clock.now();
+    const meter = (ok) => usage.recordImage({ provider: provider.name, paid: !provider.free, latencyMs: clock.now() - startedAt, ok });
+    try {
+      const { data, extension } = await provider.generate(params, signal);
+      recordHealth(provider);
+      meter(true);
+      return await imageCache.store(cacheKey, data, extension); // A failed cache write falls back like a failed provider
+    } catch (error) {
+      if (signal && signal.aborted) throw error;
+      recordHealth(provider, error);
+      meter(false);
+      console.warn(`Image provider ${provider.name} failed, trying the next one:`, error.message);
+      lastError = error;
+    }
+  }
+  throw lastError || new ImageError('No image provider is available (check IMAGE_PROVIDERS and its credentials)', 503);
+};
+
+// Health of each provider in fallback order, for /api/status; stale results are checked again
+const getProviderHealth = () => Promise.all(getProviders().map(async (provider) => {
+  if (!provider.isConfigured()) {
+    return { name: provider.name, configured: false, healthy: false, error: 'Not configured', checkedAt: null };
+  }
+  const known = providerHealth.get(provider.name);
+  if (!known || clock.now() - known.checkedAt > HEALTH_CHECK_INTERVAL_MS) {
+    try {
+      // A replay stays offline, so providers are only judged by how their taped generations went
+      if (!providerTape.isReplaying()) await provider.checkHealth();
+      recordHealth(provider);
+    } catch (error) {
+      recordHealth(provider, error);
+    }
+  }
+  return { name: provider.name, configured: true, ...providerHealth.get(provider.name) };
+}));
+
+module.exports = {
+  ImageError,
+  validateImageRequest,
+  resolveImageParams,
+  isConfigured,
+  generateImage,
+  getProviderHealth,
+};
@@ -0,0 +1,124 @@
+const crypto = require('crypto');
+const config = require('./config');
+const { generateImage } = require('./imageGenerator');
+
+// Background image queue: story turns never wait on artwork, and the client can drop images nobody needs any more
+
+const jobs = new Map();
+const queue = [];
+let running = 0;
+
+const isFinished = (job) => ['succeeded', 'failed', 'cancelled'].includes(job.status);
+
+// What clients get to see of a job
+const toStatus = (job) => ({
+  id: job.id,
+  status: job.status, // 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+  position: job.status === 'queued' ? queue.indexOf(job) + 1 : 0,
+  seed: job.params.seed,
+  imageUrl: job.imageUrl,
+  error: job.error,
+});
+
+const notify = (job) => {
+  for (const listener of job.listeners) {
+    listener(toStatus(job));
+  }
+};
+
+// Every queued job's position changes when the queue moves
+const notifyQueued = () => queue.forEach(notify);
+
+// Finished jobs hold their image for a while so a slow client can still collect it
+const finish = (job, status, changes = {}) => {
+  Object.assign(job, { status, controller: null, ...changes });
+  notify(job);
+  job.listeners.clear();
+  setTimeout(() => jobs.delete(job.id), config.imageJobs.resultTtlMs).unref();
+};
+
+const run = async (job) => {
+  running++;
+  job.status = 'running';
+  job.controller = new AbortController();
+  notify(job);
+
+  try {
+    const imageUrl = await generateImage(job.params, job.controller.signal);
+    finish(job, 'succeeded', { imageUrl });
+  } catch (error) {
+    if (job.controller && job.controller.signal.aborted) {
+      finish(job, 'cancelled');
+    } else {
+      console.error(`Image job ${job.id} failed:`, error.message);
+      finish(job, 'failed', { error: error.message });
+    }
+  } finally {
+    running--;
+    pump();
+  }
+};
+
+const pump = () => {
+  while (running < config.imageJobs.concurrency && queue.length > 0) {
+    run(queue.shift());
+  }
+  notifyQueued();
+};
+
+// Takes resolved image params (see resolveImageParams)
+const createJob = (params) => {
+  const job = {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    params,
+    imageUrl: null,
+    error: null,
+    controller: null,
+    listeners: new Set(),
+    createdAt: Date.now(),
+  };
+  jobs.set(job.id, job);
+  queue.push(job);
+  pump();
+  return toStatus(job);
+};
+
+const getJob = (id) => {
+  const job = jobs.get(id);
+  return job ? toStatus(job) : null;
+};
+
+// Queued jobs are dropped; running ones are aborted mid-request
+const cancelJob = (id) => {
+  const job = jobs.get(id);
+  if (!job || isFinished(job)) return false;
+
+  if (job.status === 'queued') {
+    queue.splice(queue.indexOf(job), 1);
+    finish(job, 'cancelled');
+    notifyQueued();
+  } else {
+    job.controller.abort();
+  }
+  return true;
+};
+
+// Calls listener with every status change until the job finishes. Returns an unsubscribe function.
+const subscribe = (id, listener) => {
+  const job = jobs.get(id);
+  if (!job) return null;
+
+  listener(toStatus(job));
+  if (isFinished(job)) return () => {};
+  job.listeners.add(listener);
+  return () => job.listeners.delete(listener);
+};
+
+module.exports = {
+  createJob,
+  getJob,
+  cancelJob,
+  subscribe,
+  getQueueStats: () => ({ queued: queue.length, running }),
+};
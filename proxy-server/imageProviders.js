@@ -0,0 +1,195 @@
+const crypto = require('crypto');
+const config = require('./config');
+const providerTape = require('./providerTape');
+
+// Image backends. Each one turns resolved image params into an image file and can report whether it is reachable:
+//   cloudflare  - Cloudflare Workers AI (stable-diffusion-xl-lightning)
+//   local       - a local server speaking the Automatic1111 txt2img API (also offered by ComfyUI bridges)
+//   placeholder - an offline SVG card drawn from the prompt, so there is always something to show
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+// An error carrying the HTTP status the route should answer with; its code tells the client the story can go on without the image
+class ImageError extends Error {
+  constructor(message, status, details) {
+    super(message);
+    this.name = 'ImageError';
+    this.status = status;
+    this.code = 'image';
+    this.details = details;
+  }
+}
+
+const describePrompt = (params) => `${params.prompt}, ${params.style}, detailed, cinematic lighting, high quality`;
+
+const cloudflare = {
+  name: 'cloudflare',
+  // A replayed tape answers in Cloudflare's place, so no account is needed
+  isConfigured: () => providerTape.isReplaying() || !!(config.cloudflare.apiKey && config.cloudflare.accountId && config.cloudflare.email),
+  headers: () => ({
+    'X-Auth-Email': config.cloudflare.email,
+    'X-Auth-Key': config.cloudflare.apiKey,
+    'Content-Type': 'application/json',
+  }),
+
+  async generate(params, signal) {
+    const endpoint = `https://api.cloudflare.com/client/v4/accounts/${config.cloudflare.accountId}/ai/run/@cf/bytedance/stable-diffusion-xl-lightning`;
+    const response = await providerTape.fetchFromProvider('cloudflare', endpoint, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        prompt: describePrompt(params),
+        ...(params.negativePrompt && { negative_prompt: params.negativePrompt }),
+        seed: params.seed,
+        num_steps: params.steps,
+        guidance: params.guidance,
+        width: params.width,
+        height: params.height,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Cloudflare API error:', response.status, errorText);
+      throw new ImageError(`Cloudflare API error: ${response.status} ${response.statusText}`, response.status, errorText);
+    }
+    return { data: Buffer.from(await response.arrayBuffer()), extension: 'png' };
+  },
+
+  // Checks the credentials rather than running the model, which would cost a generation
+  async checkHealth() {
+    const response = await fetch('https://api.cloudflare.com/client/v4/user', {
+      headers: this.headers(),
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Cloudflare answered ${response.status} ${response.statusText}`);
+    }
+  },
+};
+
+const local = {
+  name: 'local',
+  free: true, // Self-hosted, so it costs nothing and is not held back by the image budget
+  isConfigured: () => !!config.images.localUrl,
+
+  async generate(params, signal) {
+    const response = await providerTape.fetchFromProvider('local', `${config.images.localUrl}/sdapi/v1/txt2img`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        prompt: describePrompt(params),
+        negative_prompt: params.negativePrompt,
+        seed: params.seed,
+        steps: params.steps,
+        cfg_scale: params.guidance,
+        width: params.width,
+        height: params.height,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ImageError(`Local image server error: ${response.status} ${response.statusText}`, 502, errorText);
+    }
+    const { images } = await response.json();
+    if (!Array.isArray(images) || typeof images[0] !== 'string') {
+      throw new ImageError('Local image server returned no image', 502);
+    }
+    return { data: Buffer.from(images[0], 'base64'), extension: 'png' };
+  },
+
+  async checkHealth() {
+    const response = await fetch(`${config.images.localUrl}/sdapi/v1/sd-models`, {
+      signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Local image server answered ${response.status} ${response.statusText}`);
+    }
+  },
+};
+
+const escapeXml = (text) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Greedy word wrap, cut off with an ellipsis after maxLines
+const wrapText = (text, maxChars, maxLines) => {
+  const lines = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, maxChars - 1)}…`;
+  }
+  return lines;
+};
+
+// Small seeded generator (mulberry32), so the same prompt and seed always draw the same card
+const createRandom = (seed) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const renderPlaceholder = (params) => {
+  const { width, height } = params;
+  // The palette comes from the prompt, so a scene keeps its colours; the seed only moves the shapes around
+  const hue = crypto.createHash('sha256').update(params.prompt).digest().readUInt16BE(0) % 360;
+  const random = createRandom(params.seed);
+  const fontSize = Math.round(Math.min(width, height) / 22);
+  const lines = wrapText(params.prompt, Math.floor(width / (fontSize * 0.55)) - 4, 8);
+  const textTop = height / 2 - (lines.length * fontSize * 1.4) / 2;
+
+  const shapes = Array.from({ length: 7 }, () =>
+    `<circle cx="${Math.round(random() * width)}" cy="${Math.round(random() * height)}" r="${Math.round((0.1 + random() * 0.3) * Math.min(width, height))}" fill="hsl(${(hue + Math.round(random() * 80)) % 360}, 60%, 55%)" fill-opacity="0.18"/>`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<defs>
+<linearGradient id="background" x1="0" y1="0" x2="1" y2="1">
+<stop offset="0" stop-color="hsl(${hue}, 45%, 16%)"/>
+<stop offset="1" stop-color="hsl(${(hue + 50) % 360}, 55%, 32%)"/>
+</linearGradient>
+</defs>
+<rect width="100%" height="100%" fill="url(#background)"/>
+${shapes.join('\n')}
+<g font-family="Georgia, serif" fill="hsl(${hue}, 30%, 92%)" text-anchor="middle">
+${lines.map((text, index) => `<text x="${width / 2}" y="${Math.round(textTop + (index + 1) * fontSize * 1.4)}" font-size="${fontSize}">${escapeXml(text)}</text>`).join('\n')}
+<text x="${width / 2}" y="${height - fontSize * 1.5}" font-size="${Math.round(fontSize * 0.6)}" fill-opacity="0.7">${escapeXml(params.style)} · placeholder art</text>
+</g>
+</svg>
+`;
+};
+
+const placeholder = {
+  name: 'placeholder',
+  free: true, // Drawn locally, so it costs nothing and is not held back by the image budget
+  isConfigured: () => true,
+  generate: async (params) => ({ data: Buffer.from(renderPlaceholder(params)), extension: 'svg' }),
+  checkHealth: async () => {},
+};
+
+const PROVIDERS = { cloudflare, local, placeholder };
+
+const unknownProviders = config.images.providers.filter(name => !PROVIDERS[name]);
+if (unknownProviders.length > 0) {
+  console.warn(`Ignoring unknown image providers in IMAGE_PROVIDERS: ${unknownProviders.join(', ')} (expected ${Object.keys(PROVIDERS).join(', ')})`);
+}
+
+// The providers named in IMAGE_PROVIDERS, in fallback order
+const getProviders = () => config.images.providers.map(name => PROVIDERS[name]).filter(Boolean);
+
+module.exports = {
+  ImageError,
+  getProviders,
+};
@@ -0,0 +1,265 @@
+const fs = require('fs');
+const path = require('path');
+const config = require('./config');
+const clock = require('./clock');
+
+// Record and replay of provider calls, for running the game without the network. In 'record' mode every Gemini
+// turn and image provider request is passed through and written to the tape file; in 'replay' mode nothing leaves
+// the proxy and each call is answered with the next interaction the tape holds for that provider.
+//
+// A tape is { "interactions": [...] } in call order. Interactions can be recorded or written by hand - e.g. to
+// inject failures - and look like:
+//   { "provider": "gemini", "model": "gemini-2.0-flash", "message": "...", "chunks": ["{\"sceneDes", "cription\": ..."], "usage": { "promptTokenCount": 812, "candidatesTokenCount": 164 } }
+//   { "provider": "gemini", "model": "gemini-2.0-flash", "error": "got status: 503 Service Unavailable. {\"error\":{\"status\":\"UNAVAILABLE\"}}" }
+//   { "provider": "gemini", "text": "not a JSON turn at all" }
+//   { "provider": "cloudflare", "status": 429, "text": "{\"errors\":[{\"message\":\"Rate limited\"}]}" }
+//   { "provider": "local", "json": { "images": ["<base64>"] } }
+// A Gemini reply is "chunks" (as streamed) or "text", with Gemini's token "usage" if recorded; an "error" after chunks
+// fails the stream part-way. An image
+// reply has a "status" (default 200) and a "body" (base64), "text" or "json"; an "error" alone is a failed fetch.
+// "model", "message" and "history" (the chat's earlier messages, as [{ "role": "user", "text": "..." }, ...]) are only
+// checked when present and are never recorded: a replay whose turn goes to another model, or follows another history,
+// than the tape expects fails, as that means the retry, failover or session behaviour has changed.
+
+const TAPE_MODES = ['off', 'record', 'replay'];
+const TEXT_CONTENT_TYPE = /^(application\/json|text\/)/;
+
+const mode = TAPE_MODES.includes(config.providerTape.mode) ? config.providerTape.mode : 'off';
+if (mode !== config.providerTape.mode) {
+  console.warn(`Ignoring unknown PROVIDER_TAPE_MODE "${config.providerTape.mode}" (expected ${TAPE_MODES.join(', ')})`);
+}
+
+// Thrown when a replay asks for something the tape doesn't hold
+class TapeError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TapeError';
+  }
+}
+
+let interactions = [];
+const cursors = new Map(); // Provider name -> index of the interaction to replay next
+
+const loadTape = () => {
+  const tape = JSON.parse(fs.readFileSync(config.providerTape.file, 'utf8'));
+  if (!Array.isArray(tape.interactions)) {
+    throw new TapeError(`${config.providerTape.file} is not a provider tape (it needs an "interactions" array)`);
+  }
+  interactions = tape.interactions;
+  cursors.clear();
+};
+
+const saveTape = () => {
+  fs.mkdirSync(path.dirname(config.providerTape.file), { recursive: true });
+  fs.writeFileSync(config.providerTape.file, `${JSON.stringify({ interactions }, null, 2)}\n`);
+};
+
+// Recording starts a fresh tape; the file is rewritten after every call, so it is complete whenever the proxy stops
+const record = (interaction) => {
+  interactions.push(interaction);
+  saveTape();
+};
+
+const nextInteraction = (provider) => {
+  let index = cursors.get(provider) ?? 0;
+  while (index < interactions.length && interactions[index].provider !== provider) {
+    index++;
+  }
+  if (index >= interactions.length) {
+    throw new TapeError(`The provider tape has no more ${provider} interactions`);
+  }
+  cursors.set(provider, index + 1);
+  return interactions[index];
+};
+
+const toMessages = (history) => history.map(content => ({ role: content.role, text: content.parts.map(part => part.text).join('') }));
+
+const expectGeminiTurn = (model, message, history) => {
+  const interaction = nextInteraction('gemini');
+  if (interaction.model && interaction.model !== model) {
+    throw new TapeError(`The provider tape expected a turn on ${interaction.model}, but it was sent to ${model}`);
+  }
+  if (interaction.message !== undefined && interaction.message !== message) {
+    throw new TapeError(`The provider tape expected the message ${JSON.stringify(interaction.message)}, but got ${JSON.stringify(message)}`);
+  }
+  if (interaction.history !== undefined && JSON.stringify(interaction.history) !== JSON.stringify(toMessages(history))) {
+    throw new TapeError(`The provider tape expected the history ${JSON.stringify(interaction.history)}, but got ${JSON.stringify(toMessages(history))}`);
+  }
+  return interaction;
+};
+
+const toContent = (role, text) => ({ role, parts: [{ text }] });
+
+// Stands in for a Gemini chat, answering from the tape and keeping the history a real chat would
+const createReplayChat = (model, history) => {
+  let turn = [];
+
+  const play = (message) => {
+    const interaction = expectGeminiTurn(model, message, history);
+    const chunks = interaction.chunks ?? (interaction.text !== undefined ? [interaction.text] : []);
+    const succeed = () => {
+      turn = [toContent('user', message), toContent('model', chunks.join(''))];
+    };
+    return { interaction, chunks, succeed };
+  };
+
+  return {
+    async sendMessage({ message }) {
+      const { interaction, chunks, succeed } = play(message);
+      if (interaction.error) throw new Error(interaction.error);
+      succeed();
+      return { text: chunks.join(''), usageMetadata: interaction.usage };
+    },
+
+    async sendMessageStream({ message }) {
+      const { interaction, chunks, succeed } = play(message);
+      return (async function* () {
+        for (const [index, text] of chunks.entries()) {
+          yield { text, usageMetadata: index === chunks.length - 1 ? interaction.usage : undefined };
+        }
+        if (interaction.error) throw new Error(interaction.error);
+        succeed();
+      })();
+    },
+
+    getHistory: () => [...history, ...turn],
+  };
+};
+
+// Passes a real Gemini chat through, writing each turn - or how it failed - to the tape
+const createRecordingChat = (chat, model) => ({
+  async sendMessage({ message }) {
+    try {
+      const response = await chat.sendMessage({ message });
+      record({ provider: 'gemini', model, message, chunks: [response.text || ''], usage: response.usageMetadata });
+      return response;
+    } catch (error) {
+      record({ provider: 'gemini', model, message, error: error.message });
+      throw error;
+    }
+  },
+
+  async sendMessageStream({ message }) {
+    let stream;
+    try {
+      stream = await chat.sendMessageStream({ message });
+    } catch (error) {
+      record({ provider: 'gemini', model, message, error: error.message });
+      throw error;
+    }
+    return (async function* () {
+      const chunks = [];
+      let usage;
+      try {
+        for await (const chunk of stream) {
+          chunks.push(chunk.text || '');
+          usage = chunk.usageMetadata || usage;
+          yield chunk;
+        }
+      } catch (error) {
+        record({ provider: 'gemini', model, message, chunks, error: error.message });
+        throw error;
+      }
+      record({ provider: 'gemini', model, message, chunks, usage });
+    })();
+  },
+
+  getHistory: (curated) => chat.getHistory(curated),
+});
+
+/**
+ * The chat a story turn should use: the real one from createChat(), the same one recording to the tape, or
+ * a replayed one that never calls createChat() at all.
+ */
+const wrapChat = (model, history, createChat) => {
+  if (mode === 'replay') return createReplayChat(model, history);
+  if (mode === 'record') return createRecordingChat(createChat(), model);
+  return createChat();
+};
+
+const toReplayResponse = (interaction) => {
+  let body = null;
+  if (interaction.json !== undefined) body = JSON.stringify(interaction.json);
+  else if (interaction.text !== undefined) body = interaction.text;
+  else if (interaction.body !== undefined) body = Buffer.from(interaction.body, 'base64');
+  return new Response(body, {
+    status: interaction.status ?? 200,
+    statusText: interaction.statusText,
+    headers: interaction.contentType ? { 'Content-Type': interaction.contentType } : {},
+  });
+};
+
+// Tapes are committed, so a recorded URL keeps no credentials, query string or Cloudflare account ID
+const redactUrl = (url) => {
+  const redacted = new URL(url);
+  redacted.username = '';
+  redacted.password = '';
+  redacted.search = '';
+  redacted.pathname = redacted.pathname.replace(/\/accounts\/[^/]+/, '/accounts/:account-id');
+  return redacted.href;
+};
+
+// fetch() for an image provider's generation requests, going through the tape like Gemini turns
+const fetchFromProvider = async (provider, url, init) => {
+  if (mode === 'replay') {
+    const interaction = nextInteraction(provider);
+    if (interaction.error && interaction.status === undefined) throw new Error(interaction.error);
+    return toReplayResponse(interaction);
+  }
+  if (mode !== 'record') return fetch(url, init);
+
+  let response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    // An abandoned image was cancelled by the player rather than failed by the provider
+    if (error.name !== 'AbortError') record({ provider, url: redactUrl(url), error: error.message });
+    throw error;
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  const contentType = response.headers.get('content-type') || '';
+  record({
+    provider,
+    url: redactUrl(url),
+    status: response.status,
+    statusText: response.statusText,
+    contentType,
+    ...(TEXT_CONTENT_TYPE.test(contentType) ? { text: data.toString('utf8') } : { body: data.toString('base64') }),
+  });
+  return new Response(data, { status: response.status, statusText: response.statusText, headers: response.headers });
+};
+
+// What /api/status reports about the tape; during a replay, how many interactions each provider has left
+const getStats = () => {
+  if (mode === 'off') return { mode };
+  const stats = { mode, file: config.providerTape.file, interactions: interactions.length };
+  if (mode === 'replay') {
+    stats.remaining = {};
+    interactions.forEach((interaction, index) => {
+      const provider = interaction.provider;
+      const left = index >= (cursors.get(provider) ?? 0) ? 1 : 0;
+      stats.remaining[provider] = (stats.remaining[provider] ?? 0) + left;
+    });
+  }
+  return stats;
+};
+
+if (mode === 'replay') {
+  loadTape();
+  clock.useVirtualTime();
+  console.log(`Replaying provider calls from ${config.providerTape.file} in virtual time`);
+} else if (mode === 'record') {
+  saveTape();
+  console.log(`Recording provider calls to ${config.providerTape.file}`);
+}
+
+module.exports = {
+  TapeError,
+  wrapChat,
+  fetchFromProvider,
+  // Starts the replay over from the first interaction, e.g. between two runs of a test against one proxy
+  rewind: loadTape,
+  getStats,
+  isActive: () => mode !== 'off',
+  isReplaying: () => mode === 'replay',
+};
@@ -0,0 +1,384 @@
+const crypto = require('crypto');
+const config = require('./config');
+
+// Shared adventures over WebSockets. A host opens a room from their running game and others join with its code.
+// The room collects each round's actions and combines them into one attributed action, which the host's game
+// narrates; the host then shares the resulting story, so every player sees the same scene and image.
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I to misread when a code is read out
+const CODE_LENGTH = 6;
+const ROUND_MODES = ['turns', 'simultaneous'];
+const MAX_NAME_LENGTH = 40;
+const MAX_ACTION_LENGTH = 500;
+const MAX_NOTICE_LENGTH = 300;
+const ROUND_SECONDS = { min: 10, max: 600, default: 60 };
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const OPEN = 1; // WebSocket.OPEN
+
+// Close codes from 4000 up tell the client not to reconnect
+const CLOSE_REPLACED = 4000;
+
+// An error the player caused, reported back on their socket rather than logged
+class RoomError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'RoomError';
+  }
+}
+
+const rooms = new Map();
+
+const createCode = () => {
+  let code;
+  do {
+    code = Array.from(crypto.randomBytes(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const send = (socket, message) => {
+  if (socket && socket.readyState === OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const broadcast = (room, message, exceptId) => {
+  for (const player of room.players.values()) {
+    if (player.id !== exceptId) send(player.socket, message);
+  }
+};
+
+const connectedPlayers = (room) => [...room.players.values()].filter(player => player.socket);
+
+// What clients get to see of a room: never the players' tokens
+const toState = (room) => ({
+  code: room.code,
+  mode: room.mode,
+  roundSeconds: room.roundSeconds,
+  players: [...room.players.values()].map(player => ({
+    id: player.id,
+    name: player.name,
+    connected: !!player.socket,
+    isHost: player.id === room.hostId,
+    submitted: room.round.actions.has(player.id),
+  })),
+  round: {
+    number: room.round.number,
+    status: room.round.status, // 'collecting' | 'narrating'
+    turnPlayerId: room.round.turnPlayerId,
+    deadline: room.round.deadline,
+    actions: [...room.round.actions].map(([playerId, { name, text }]) => ({ playerId, name, text })),
+  },
+});
+
+const publish = (room) => broadcast(room, { type: 'room', room: toState(room) });
+
+// In turn order, the next connected player after the one who acted last, wrapping around to the first
+const nextTurnPlayerId = (room, afterId) => {
+  const players = [...room.players.values()];
+  const index = players.findIndex(player => player.id === afterId);
+  for (let step = 1; step <= players.length; step++) {
+    const candidate = players[(index + step) % players.length];
+    if (candidate.socket) return candidate.id;
+  }
+  return null;
+};
+
+const openRound = (room, number) => {
+  clearTimeout(room.round.timer);
+  room.round = {
+    number,
+    status: 'collecting',
+    turnPlayerId: room.mode === 'turns' ? nextTurnPlayerId(room, room.round.turnPlayerId) : null,
+    actions: new Map(),
+    deadline: null,
+    timer: null,
+    action: null,
+  };
+};
+
+// Each line names who is acting, e.g. "Aria: I open the door"
+const combineActions = (round) => [...round.actions.values()].map(({ name, text }) => `${name}: ${text}`).join('\n');
+
+const sendRoundToHost = (room) => {
+  send(room.players.get(room.hostId).socket, { type: 'round', number: room.round.number, action: room.round.action });
+};
+
+const closeRound = (room) => {
+  clearTimeout(room.round.timer);
+  if (room.round.actions.size === 0) return;
+  Object.assign(room.round, { status: 'narrating', deadline: null, timer: null, action: combineActions(room.round) });
+  // A host who is away gets the round when they reconnect
+  sendRoundToHost(room);
+  publish(room);
+};
+
+// A simultaneous round closes once every connected player has acted, or when the timer started by the first action runs out
+const closeRoundIfReady = (room) => {
+  const { round } = room;
+  if (round.status !== 'collecting' || round.actions.size === 0) return;
+  if (room.mode === 'turns' || connectedPlayers(room).every(player => round.actions.has(player.id))) {
+    closeRound(room);
+  } else if (!round.timer) {
+    round.deadline = Date.now() + room.roundSeconds * 1000;
+    round.timer = setTimeout(() => {
+      closeRound(room);
+    }, room.roundSeconds * 1000);
+    round.timer.unref();
+  }
+};
+
+const readName = (name) => {
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+    throw new RoomError(`Pick a name of 1 to ${MAX_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+};
+
+const addPlayer = (room, name, socket) => {
+  const player = { id: crypto.randomUUID(), name, token: crypto.randomUUID(), socket };
+  room.players.set(player.id, player);
+  return player;
+};
+
+const welcome = (room, player) => {
+  send(player.socket, { type: 'joined', code: room.code, playerId: player.id, token: player.token, isHost: player.id === room.hostId });
+  send(player.socket, { type: 'room', room: toState(room) });
+  if (room.story && player.id !== room.hostId) {
+    send(player.socket, { type: 'story', story: room.story });
+  }
+  if (player.id === room.hostId && room.round.status === 'narrating') {
+    sendRoundToHost(room);
+  }
+};
+
+const createRoom = (socket, { name, mode = 'simultaneous', roundSeconds = ROUND_SECONDS.default }) => {
+  const hostName = readName(name);
+  if (!ROUND_MODES.includes(mode)) {
+    throw new RoomError(`mode must be one of ${ROUND_MODES.join(', ')}`);
+  }
+  if (!Number.isInteger(roundSeconds) || roundSeconds < ROUND_SECONDS.min || roundSeconds > ROUND_SECONDS.max) {
+    throw new RoomError(`roundSeconds must be a whole number from ${ROUND_SECONDS.min} to ${ROUND_SECONDS.max}`);
+  }
+
+  const room = { code: createCode(), mode, roundSeconds, hostId: null, players: new Map(), round: { actions: new Map() }, story: null, emptySince: null };
+  const host = addPlayer(room, hostName, socket);
+  room.hostId = host.id;
+  openRound(room, 1);
+  rooms.set(room.code, room);
+  welcome(room, host);
+  return { room, player: host };
+};
+
+const joinRoom = (socket, { code, name }) => {
+  const room = rooms.get(String(code || '').trim().toUpperCase());
+  if (!room) {
+    throw new RoomError('No shared adventure has that code');
+  }
+  const playerName = readName(name);
+  if ([...room.players.values()].some(player => player.name.toLowerCase() === playerName.toLowerCase())) {
+    throw new RoomError(`Someone called ${playerName} is already playing - pick another name`);
+  }
+  if (room.players.size >= config.rooms.maxPlayers) {
+    throw new RoomError(`This adventure is full (${config.rooms.maxPlayers} players)`);
+  }
+
+  const player = addPlayer(room, playerName, socket);
+  room.emptySince = null;
+  if (room.mode === 'turns' && !room.round.turnPlayerId) {
+    room.round.turnPlayerId = player.id;
+  }
+  welcome(room, player);
+  broadcast(room, { type: 'notice', message: `${player.name} joined the adventure.` }, player.id);
+  publish(room);
+  return { room, player };
+};
+
+// A returning player proves who they are with the token they were given on joining, and gets the current state
+const rejoinRoom = (socket, { code, playerId, token }) => {
+  const room = rooms.get(String(code || '').toUpperCase());
+  const player = room && room.players.get(playerId);
+  if (!player || player.token !== token) {
+    throw new RoomError('That shared adventure has ended');
+  }
+
+  if (player.socket && player.socket !== socket) {
+    player.socket.close(CLOSE_REPLACED, 'Connected from somewhere else');
+  }
+  player.socket = socket;
+  room.emptySince = null;
+  if (room.mode === 'turns' && !room.round.turnPlayerId) {
+    room.round.turnPlayerId = player.id;
+  }
+  welcome(room, player);
+  publish(room);
+  return { room, player };
+};
+
+const submitAction = (room, player, text) => {
+  const action = typeof text === 'string' ? text.trim() : '';
+  if (!action || action.length > MAX_ACTION_LENGTH) {
+    throw new RoomError(`An action must be 1 to ${MAX_ACTION_LENGTH} characters`);
+  }
+  if (room.round.status !== 'collecting') {
+    throw new RoomError('The narrator is still telling the last round');
+  }
+  if (room.mode === 'turns' && room.round.turnPlayerId !== player.id) {
+    throw new RoomError("It is not your turn yet");
+  }
+
+  // In a simultaneous round a player may change their mind until it closes
+  room.round.actions.set(player.id, { name: player.name, text: action });
+  publish(room);
+  closeRoundIfReady(room);
+};
+
+// The host's game has finished narrating the round; a failed round is played again, with the host's notice of why
+const finishRound = (room, ok, notice) => {
+  if (room.round.status !== 'narrating') return;
+  if (ok) {
+    openRound(room, room.round.number + 1);
+  } else {
+    const { number, turnPlayerId } = room.round;
+    openRound(room, number);
+    if (room.mode === 'turns') room.round.turnPlayerId = turnPlayerId;
+    broadcast(room, { type: 'notice', message: notice || 'The narrator lost the thread of that round - please act again.' });
+  }
+  publish(room);
+};
+
+const closeRoom = (room, reason) => {
+  clearTimeout(room.round.timer);
+  rooms.delete(room.code);
+  broadcast(room, { type: 'closed', reason });
+};
+
+// Someone dropped out of the round: the turn moves on, and a simultaneous round stops waiting for them
+const skipAbsentPlayer = (room, player) => {
+  if (room.round.status !== 'collecting') return;
+  if (room.mode === 'turns' && room.round.turnPlayerId === player.id) {
+    room.round.turnPlayerId = nextTurnPlayerId(room, player.id);
+  }
+  closeRoundIfReady(room);
+};
+
+const leaveRoom = (room, player) => {
+  if (player.id === room.hostId) {
+    closeRoom(room, `${player.name} ended the shared adventure.`);
+    return;
+  }
+  player.socket = null;
+  room.round.actions.delete(player.id);
+  skipAbsentPlayer(room, player);
+  room.players.delete(player.id);
+  broadcast(room, { type: 'notice', message: `${player.name} left the adventure.` });
+  publish(room);
+};
+
+const disconnect = (room, player) => {
+  player.socket = null;
+  if (connectedPlayers(room).length === 0) {
+    room.emptySince = Date.now();
+  }
+  skipAbsentPlayer(room, player);
+  publish(room);
+};
+
+// Messages from a player who is in a room
+const handleRoomMessage = (room, player, message) => {
+  const isHost = player.id === room.hostId;
+  switch (message.type) {
+    case 'action':
+      submitAction(room, player, message.text);
+      break;
+    case 'story':
+      if (!isHost) throw new RoomError('Only the host can share the story');
+      if (!message.story || typeof message.story !== 'object') throw new RoomError('story must be an object');
+      room.story = message.story;
+      broadcast(room, { type: 'story', story: room.story }, player.id);
+      break;
+    case 'roundDone':
+      if (!isHost) throw new RoomError('Only the host can finish a round');
+      if (message.notice !== undefined && (typeof message.notice !== 'string' || message.notice.length > MAX_NOTICE_LENGTH)) {
+        throw new RoomError(`notice must be a string of at most ${MAX_NOTICE_LENGTH} characters`);
+      }
+      finishRound(room, message.ok !== false, message.notice);
+      break;
+    case 'leave':
+      leaveRoom(room, player);
+      break;
+    default:
+      throw new RoomError(`Unknown message type: ${message.type}`);
+  }
+};
+
+const ENTRY_HANDLERS = { create: createRoom, join: joinRoom, rejoin: rejoinRoom };
+
+const handleConnection = (socket) => {
+  let membership = null; // { room, player } once this socket has created or joined a room
+  socket.isAlive = true;
+  socket.on('pong', () => {
+    socket.isAlive = true;
+  });
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return send(socket, { type: 'error', error: 'Messages must be JSON' });
+    }
+
+    try {
+      if (membership && rooms.get(membership.room.code) === membership.room && membership.room.players.get(membership.player.id) === membership.player) {
+        handleRoomMessage(membership.room, membership.player, message);
+        if (message.type === 'leave') membership = null;
+      } else if (ENTRY_HANDLERS[message.type]) {
+        membership = ENTRY_HANDLERS[message.type](socket, message);
+      } else {
+        throw new RoomError('Create or join a shared adventure first');
+      }
+    } catch (error) {
+      if (!(error instanceof RoomError)) {
+        console.error('Error handling room message:', error);
+      }
+      send(socket, { type: 'error', error: error instanceof RoomError ? error.message : 'Something went wrong in the shared adventure' });
+    }
+  });
+
+  socket.on('close', () => {
+    // A socket replaced by a reconnect no longer speaks for its player
+    if (membership && membership.player.socket === socket && rooms.has(membership.room.code)) {
+      disconnect(membership.room, membership.player);
+    }
+  });
+};
+
+// Pings every player so dead connections are noticed, and closes rooms nobody has been in for a while
+setInterval(() => {
+  const cutoff = Date.now() - config.rooms.idleTimeoutMs;
+  for (const room of rooms.values()) {
+    if (room.emptySince && room.emptySince < cutoff) {
+      closeRoom(room, 'The shared adventure was closed after everyone left.');
+      continue;
+    }
+    for (const { socket } of room.players.values()) {
+      if (!socket) continue;
+      if (!socket.isAlive) {
+        socket.terminate();
+        continue;
+      }
+      socket.isAlive = false;
+      socket.ping();
+    }
+  }
+}, HEARTBEAT_INTERVAL_MS).unref();
+
+module.exports = {
+  handleConnection,
+  getStats: () => ({
+    rooms: rooms.size,
+    players: [...rooms.values()].reduce((count, room) => count + connectedPlayers(room).length, 0),
+  }),
+};
@@ -1,83 +1,325 @@
 const express = require('express');
 const cors = require('cors');
-const dotenv = require('dotenv');
-const path = require('path');
-
-// Load environment variables from the main .env.local file
-dotenv.config({ path: path.join(__dirname, '..', '.env.local') });
+const { WebSocketServer } = require('ws');
+const config = require('./config');
+const storySessions = require('./storySessions');
+const imageJobs = require('./imageJobs');
+const imageCache = require('./imageCache');
+const rooms = require('./rooms');
+const usage = require('./usage');
+const clock = require('./clock');
+const providerTape = require('./providerTape');
+const tts = require('./tts');
+const { getProviders: getImageProviders } = require('./imageProviders');
+const { validateImageRequest, resolveImageParams, generateImage, getProviderHealth, isConfigured: isImageGenerationConfigured } = require('./imageGenerator');
 
 const app = express();
-const port = 3001;
+const port = config.port;
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '5mb' })); // Restored sessions carry their whole chat history
+
+// Error replies carry a code and retry delay when known, so the client can offer the right way out
+const describeError = (error) => ({ error: error.message, code: error.code, retryAfter: error.retryAfter });
+
+const sendError = (res, error, extra = {}) => {
+  if (error.retryAfter) {
+    res.set('Retry-After', String(error.retryAfter));
+  }
+  res.status(error.status || 500).json({ ...describeError(error), ...extra });
+};
 
-const CLOUDFLARE_API_KEY = process.env.CLOUDFLARE_API_KEY;
-const ACCOUNT_ID = '5d75d0ccc6c315c0fd24bda444e188c7';
+const CLOUDFLARE_API_KEY = config.cloudflare.apiKey;
+const ACCOUNT_ID = config.cloudflare.accountId;
+const CLOUDFLARE_EMAIL = config.cloudflare.email;
 
 // Debug endpoint to check configuration
-app.get('/api/status', (req, res) => {
+app.get('/api/status', async (req, res) => {
   res.json({
     hasApiKey: !!CLOUDFLARE_API_KEY,
-    accountId: ACCOUNT_ID,
-    server: 'Cloudflare AI Proxy',
+    hasGeminiApiKey: !!config.gemini.apiKey,
+    hasAccountId: !!ACCOUNT_ID,
+    hasAuthEmail: !!CLOUDFLARE_EMAIL,
+    activeStorySessions: storySessions.getSessionCount(),
+    imageQueue: imageJobs.getQueueStats(),
+    imageCache: imageCache.getStats(),
+    rooms: rooms.getStats(),
+    providerTape: providerTape.getStats(),
+    usage: usage.getReport(),
+    imageProviders: await getProviderHealth(),
+    tts: await tts.checkHealth(),
+    server: 'Simulated Souls AI Proxy',
     timestamp: new Date().toISOString()
   });
 });
 
-app.post('/api/generate-image', async (req, res) => {
+// Start a storyteller session, optionally restoring the history of a saved game. adventureId keeps the game's usage
+// metered as one across the sessions it goes through.
+app.post('/api/story/sessions', (req, res) => {
+  const { systemInstruction, history = [], adventureId } = req.body;
+
+  if (!systemInstruction || typeof systemInstruction !== 'string') {
+    return res.status(400).json({ error: 'systemInstruction is required' });
+  }
+  if (!Array.isArray(history)) {
+    return res.status(400).json({ error: 'history must be an array' });
+  }
+  if (adventureId !== undefined && (typeof adventureId !== 'string' || !adventureId.trim())) {
+    return res.status(400).json({ error: 'adventureId must be a non-empty string' });
+  }
+  if (!config.gemini.apiKey && !providerTape.isReplaying()) {
+    return res.status(500).json({ error: 'Gemini API key not configured (set GEMINI_API_KEY for the proxy server)', code: 'auth' });
+  }
+
+  const sessionId = storySessions.createSession({ systemInstruction, history, adventureId });
+  res.status(201).json({ sessionId });
+});
+
+app.delete('/api/story/sessions/:id', (req, res) => {
+  storySessions.deleteSession(req.params.id);
+  res.status(204).end();
+});
+
+// Send a player action. With { stream: true } the reply is a server-sent event stream of
+// "chunk" events, a "restart" event if a partial attempt is retried, then "done" or "error".
+// Either way the reply names the model that narrated the turn and carries its metered usage.
+app.post('/api/story/sessions/:id/messages', async (req, res) => {
+  const { message, stream = false } = req.body;
+
+  if (!message || typeof message !== 'string') {
+    return res.status(400).json({ error: 'message is required' });
+  }
+
+  const session = storySessions.getSession(req.params.id);
+  if (!session) {
+    return res.status(404).json({ error: 'Story session not found or expired' });
+  }
+
   try {
-    const { prompt } = req.body;
-    
-    if (!prompt) {
-      return res.status(400).json({ error: 'Prompt is required' });
-    }
+    usage.checkTurnBudget(session.adventureId);
+  } catch (error) {
+    return sendError(res, error);
+  }
 
-    if (!CLOUDFLARE_API_KEY) {
-      return res.status(500).json({ error: 'Cloudflare API key not configured' });
+  if (!stream) {
+    try {
+      const { text, model, usage: turnUsage } = await storySessions.sendMessage(session, message);
+      return res.json({ text, model, usage: usage.recordTurn(session.adventureId, turnUsage) });
+    } catch (error) {
+      console.error('Error sending story message:', error);
+      return sendError(res, error);
     }
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const sendEvent = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 
-    const endpoint = `https://api.cloudflare.com/client/v4/accounts/${ACCOUNT_ID}/ai/run/@cf/bytedance/stable-diffusion-xl-lightning`;
-    
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'X-Auth-Email': 'khushaldemehta@gmail.com',
-        'X-Auth-Key': CLOUDFLARE_API_KEY,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        prompt: `${prompt}, epic fantasy art, detailed, cinematic lighting, high quality`,
-        num_steps: 20,
-        guidance: 7.5,
-        width: 1024,
-        height: 1024,
-      }),
+  try {
+    const { text, model, usage: turnUsage } = await storySessions.streamMessage(session, message, {
+      onChunk: (chunk) => sendEvent('chunk', { text: chunk }),
+      onRestart: () => sendEvent('restart', {}),
     });
+    sendEvent('done', { text, model, usage: usage.recordTurn(session.adventureId, turnUsage) });
+  } catch (error) {
+    console.error('Error streaming story message:', error);
+    sendEvent('error', { ...describeError(error), status: error.status || 500 });
+  }
+  res.end();
+});
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Cloudflare API error:', response.status, errorText);
-      return res.status(response.status).json({ 
-        error: `Cloudflare API error: ${response.status} ${response.statusText}`,
-        details: errorText 
-      });
-    }
+// A one-off request on a session's models, e.g. repairing a reply that could not be read; the story's history is untouched
+app.post('/api/story/sessions/:id/completions', async (req, res) => {
+  const { systemInstruction, prompt } = req.body;
 
-    // Get the image as buffer
-    const imageBuffer = await response.arrayBuffer();
-    const base64Image = Buffer.from(imageBuffer).toString('base64');
-    const dataUrl = `data:image/png;base64,${base64Image}`;
+  if (!systemInstruction || typeof systemInstruction !== 'string' || !prompt || typeof prompt !== 'string') {
+    return res.status(400).json({ error: 'systemInstruction and prompt are required' });
+  }
 
-    res.json({ imageUrl: dataUrl });
+  const session = storySessions.getSession(req.params.id);
+  if (!session) {
+    return res.status(404).json({ error: 'Story session not found or expired' });
+  }
 
+  try {
+    usage.checkTurnBudget(session.adventureId);
+    const { text, model, usage: turnUsage } = await storySessions.complete(session, systemInstruction, prompt);
+    res.json({ text, model, usage: usage.recordTurn(session.adventureId, turnUsage) });
+  } catch (error) {
+    console.error('Error completing story request:', error);
+    sendError(res, error);
+  }
+});
+
+// Replace the narrator's last reply, once the client has repaired or moderated it
+app.put('/api/story/sessions/:id/last-reply', (req, res) => {
+  const { text } = req.body;
+
+  if (!text || typeof text !== 'string') {
+    return res.status(400).json({ error: 'text is required' });
+  }
+
+  const session = storySessions.getSession(req.params.id);
+  if (!session) {
+    return res.status(404).json({ error: 'Story session not found or expired' });
+  }
+  if (!storySessions.replaceLastReply(session, text)) {
+    return res.status(409).json({ error: 'The session has no reply to replace yet' });
+  }
+  res.status(204).end();
+});
+
+// Move a session off the model narrating it, e.g. when the player asks for another model after repeated failures
+app.post('/api/story/sessions/:id/model', (req, res) => {
+  const session = storySessions.getSession(req.params.id);
+  if (!session) {
+    return res.status(404).json({ error: 'Story session not found or expired' });
+  }
+
+  try {
+    res.json({ model: storySessions.switchModel(session) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+app.post('/api/generate-image', async (req, res) => {
+  const validationError = validateImageRequest(req.body);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const params = resolveImageParams(req.body);
+    const imageUrl = await generateImage(params);
+    res.json({ imageUrl, seed: params.seed });
   } catch (error) {
     console.error('Error generating image:', error);
-    res.status(500).json({ error: 'Internal server error', details: error.message });
+    sendError(res, error, { details: error.details });
   }
 });
 
-app.listen(port, () => {
-  console.log(`🚀 Cloudflare AI Proxy Server running at http://localhost:${port}`);
-  console.log(`📡 Ready to proxy image generation requests to Cloudflare AI`);
+// Queue an image in the background. The reply carries the job id to poll, stream or cancel.
+app.post('/api/images/jobs', (req, res) => {
+  const validationError = validateImageRequest(req.body);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+  if (!isImageGenerationConfigured()) {
+    return res.status(500).json({ error: 'No image provider is configured (check IMAGE_PROVIDERS and its credentials)' });
+  }
+
+  res.status(202).json(imageJobs.createJob(resolveImageParams(req.body)));
+});
+
+// Generated images, served from the disk cache. Their content never changes, so browsers may keep them.
+app.get('/api/images/files/:file', (req, res) => {
+  const filePath = imageCache.getFilePath(req.params.file);
+  if (!filePath) {
+    return res.status(404).json({ error: 'Image not found or evicted from the cache' });
+  }
+  res.sendFile(filePath, { maxAge: '7d', immutable: true });
 });
+
+app.get('/api/images/jobs/:id', (req, res) => {
+  const job = imageJobs.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Image job not found or expired' });
+  }
+  res.json(job);
+});
+
+// Server-sent "status" events for a job until it succeeds, fails or is cancelled
+app.get('/api/images/jobs/:id/events', (req, res) => {
+  if (!imageJobs.getJob(req.params.id)) {
+    return res.status(404).json({ error: 'Image job not found or expired' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const unsubscribe = imageJobs.subscribe(req.params.id, (job) => {
+    res.write(`event: status\ndata: ${JSON.stringify(job)}\n\n`);
+    if (!['queued', 'running'].includes(job.status)) {
+      res.end();
+    }
+  });
+  req.on('close', unsubscribe);
+});
+
+app.delete('/api/images/jobs/:id', (req, res) => {
+  imageJobs.cancelJob(req.params.id);
+  res.status(204).end();
+});
+
+// Today's and recent usage, with the budgets - the cheap part of /api/status, which also checks image providers
+app.get('/api/usage', (req, res) => {
+  res.json(usage.getReport());
+});
+
+// Whether the proxy can narrate, and with which voices; without an engine the game uses the browser's voices
+app.get('/api/tts', (req, res) => {
+  res.json(tts.getStats());
+});
+
+// Reads text aloud with the text-to-speech engine. The reply is the audio itself.
+app.post('/api/tts', async (req, res) => {
+  if (!tts.isConfigured()) {
+    return res.status(404).json({ error: 'No text-to-speech engine is configured (set TTS_URL for the proxy server)' });
+  }
+  const validationError = tts.validateSpeechRequest(req.body);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  // A player who skips the narration before it arrives closes the request, which stops the synthesis
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  try {
+    const { data, contentType } = await tts.synthesize(req.body, controller.signal);
+    res.type(contentType).send(data);
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error('Error synthesizing speech:', error);
+    sendError(res, error, { details: error.details });
+  }
+});
+
+// Replay controls for automated runs, only offered while a provider tape is replayed (PROVIDER_TAPE_MODE=replay).
+// Advancing the virtual clock lets a test wait out a circuit breaker; rewinding plays the tape again from the start.
+app.post('/api/tape/clock', (req, res) => {
+  if (!providerTape.isReplaying()) {
+    return res.status(404).json({ error: 'No provider tape is being replayed' });
+  }
+  const { advanceSeconds } = req.body;
+  if (typeof advanceSeconds !== 'number' || advanceSeconds < 0) {
+    return res.status(400).json({ error: 'advanceSeconds must be a non-negative number' });
+  }
+  res.json({ now: new Date(clock.advance(advanceSeconds * 1000)).toISOString() });
+});
+
+app.post('/api/tape/rewind', (req, res) => {
+  if (!providerTape.isReplaying()) {
+    return res.status(404).json({ error: 'No provider tape is being replayed' });
+  }
+  try {
+    providerTape.rewind();
+    res.json(providerTape.getStats());
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+const server = app.listen(port, () => {
+  console.log(`🚀 Simulated Souls AI Proxy Server running at http://localhost:${port}`);
+  console.log(`📡 Ready to proxy story requests to Gemini and image generation requests to ${getImageProviders().map(provider => provider.name).join(', then ')}`);
+});
+
+// Shared adventures talk over a WebSocket on the same port; the host's shared story can be as large as a restored session
+const roomSockets = new WebSocketServer({ server, path: '/api/rooms', maxPayload: 5 * 1024 * 1024 });
+roomSockets.on('connection', rooms.handleConnection);
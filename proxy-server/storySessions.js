@@ -0,0 +1,379 @@
+const crypto = require('crypto');
+const { GoogleGenAI } = require('@google/genai');
+const config = require('./config');
+const clock = require('./clock');
+const providerTape = require('./providerTape');
+
+// Server-side storyteller sessions: each holds its Gemini chat history, so history and credentials never leave the server
+
+let ai = null;
+
+const getClient = () => {
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: config.gemini.apiKey });
+  }
+  return ai;
+};
+
+// An error carrying the HTTP status the route should answer with, and for the client a code saying what
+// went wrong ('auth', 'rate-limited', 'overloaded') and, where known, how many seconds to wait before retrying
+class StoryError extends Error {
+  constructor(message, status, code, retryAfter) {
+    super(message);
+    this.name = 'StoryError';
+    this.status = status;
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+const sessions = new Map();
+
+const createChat = (modelName, systemInstruction, history = []) => {
+  return providerTape.wrapChat(modelName, history, () => getClient().chats.create({
+    model: modelName,
+    config: {
+      systemInstruction,
+      responseMimeType: 'application/json', // Request JSON output
+    },
+    history,
+  }));
+};
+
+// History arrives in the client's provider-neutral { role, text } shape
+const toContent = (message) => ({ role: message.role === 'model' ? 'model' : 'user', parts: [{ text: String(message.text) }] });
+
+// adventureId names the game the session plays, for metering; it outlives the session, which is replaced on every
+// load, rewind and summary. A session without one is metered on its own.
+const createSession = ({ systemInstruction, history = [], adventureId }) => {
+  const id = crypto.randomUUID();
+  sessions.set(id, {
+    id,
+    adventureId: adventureId || id,
+    systemInstruction,
+    // The session owns the history rather than any one chat, so it can move between models
+    history: history.map(toContent),
+    activeModel: config.gemini.models[0],
+    breakers: new Map(),
+    lastUsed: clock.now(),
+  });
+  return id;
+};
+
+const getSession = (id) => {
+  const session = sessions.get(id);
+  if (session) {
+    session.lastUsed = clock.now();
+  }
+  return session;
+};
+
+const deleteSession = (id) => sessions.delete(id);
+
+// Drop sessions nobody has used for a while so abandoned games don't pile up in memory
+setInterval(() => {
+  const cutoff = clock.now() - config.storySessions.idleTimeoutMs;
+  for (const [id, session] of sessions) {
+    if (session.lastUsed < cutoff) {
+      sessions.delete(id);
+    }
+  }
+}, 60 * 1000).unref();
+
+// Retry configuration
+const RETRY_CONFIG = {
+  maxRetries: 3,
+  baseDelay: 1000, // 1 second
+  maxDelay: 8000,  // 8 seconds
+  backoffFactor: 2
+};
+
+const CIRCUIT_BREAKER_CONFIG = {
+  failureThreshold: 5, // Open circuit after 5 consecutive failures
+  resetTimeout: 30000, // Keep the circuit open for 30 seconds after repeated failures or a failed probe
+  halfOpenRetryTimeout: 10000 // Probe a model again 10 seconds after failing over away from it
+};
+
+// Each session keeps one circuit breaker per model, so one player's bad luck doesn't affect everyone else
+const createCircuitBreaker = () => ({
+  state: 'closed', // 'closed' | 'open' | 'half-open'
+  failures: 0,
+  openUntil: 0,
+});
+
+const getBreaker = (session, model) => {
+  if (!session.breakers.has(model)) {
+    session.breakers.set(model, createCircuitBreaker());
+  }
+  return session.breakers.get(model);
+};
+
+const isAvailable = (session, model) => {
+  const breaker = getBreaker(session, model);
+  return breaker.state !== 'open' || clock.now() >= breaker.openUntil;
+};
+
+// Whether a model may be used for this turn. An open circuit whose timeout has passed
+// becomes half-open: the next turn is a probe that decides whether to close it again.
+const canAttempt = (session, model) => {
+  if (!isAvailable(session, model)) return false;
+
+  const breaker = getBreaker(session, model);
+  if (breaker.state === 'open') {
+    breaker.state = 'half-open';
+    console.log(`Circuit breaker for ${model} is half-open - probing it with the next turn`);
+  }
+  return true;
+};
+
+const openCircuit = (session, model, timeout) => {
+  const breaker = getBreaker(session, model);
+  breaker.state = 'open';
+  breaker.openUntil = clock.now() + timeout;
+  console.log(`Circuit breaker for ${model} opened. Will probe again after`, timeout / 1000, 'seconds');
+};
+
+const recordFailure = (session, model) => {
+  const breaker = getBreaker(session, model);
+  breaker.failures++;
+
+  if (breaker.state === 'half-open' || breaker.failures >= CIRCUIT_BREAKER_CONFIG.failureThreshold) {
+    openCircuit(session, model, CIRCUIT_BREAKER_CONFIG.resetTimeout);
+  }
+};
+
+const recordSuccess = (session, model) => {
+  const breaker = getBreaker(session, model);
+  if (breaker.state !== 'closed') {
+    console.log(`Circuit breaker for ${model} closed - model has recovered`);
+  }
+  breaker.state = 'closed';
+  breaker.failures = 0;
+};
+
+const isOverloadedError = (message) =>
+  message.includes('503') || message.includes('UNAVAILABLE') || message.includes('overloaded');
+
+const DEFAULT_RATE_LIMIT_RETRY_SECONDS = 60;
+
+// Gemini's quota errors carry a RetryInfo detail such as "retryDelay": "37s"
+const readRetryDelay = (message) => {
+  const match = /retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(message);
+  return match ? Math.ceil(Number(match[1])) : DEFAULT_RATE_LIMIT_RETRY_SECONDS;
+};
+
+// Seconds until the first model whose circuit is open may be tried again
+const secondsUntilAvailable = (session) => {
+  const reopenAt = Math.min(...config.gemini.models.map(model => getBreaker(session, model).openUntil).filter(time => time > clock.now()));
+  return Number.isFinite(reopenAt) ? Math.max(1, Math.ceil((reopenAt - clock.now()) / 1000)) : CIRCUIT_BREAKER_CONFIG.resetTimeout / 1000;
+};
+
+// Thrown to move on to the next model in the failover order
+class FailoverError extends Error {}
+
+/**
+ * Runs one turn against a single model with retries and backoff. The chat is rebuilt from the
+ * session history for every attempt, so a failed (possibly half-streamed) attempt leaves no trace.
+ * Throws StoryError for permanent errors and FailoverError when another model should take over.
+ * meter.attempts counts every call made, for the usage report.
+ */
+const runTurnOnModel = async (session, model, attemptTurn, hasFallback, meter) => {
+  let lastError = null;
+
+  for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
+    try {
+      meter.attempts++;
+      const chat = createChat(model, session.systemInstruction, session.history);
+      const { text, usageMetadata } = await attemptTurn(chat);
+
+      // Success - keep the history the model built and reset its circuit breaker
+      session.history = chat.getHistory(true);
+      recordSuccess(session, model);
+      return { text: text || '', usageMetadata };
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      console.error(`Error sending message to ${model} (attempt ${attempt + 1}/${RETRY_CONFIG.maxRetries + 1}):`, lastError.message);
+
+      // Handle permanent errors that shouldn't be retried
+      if (lastError.message.includes('API key not valid')) {
+        throw new StoryError('Invalid API Key. Please check the GEMINI_API_KEY configured for the proxy server.', 401, 'auth');
+      }
+
+      // Check for rate limit / quota exceeded errors
+      if (lastError.message.includes('429') && lastError.message.toUpperCase().includes('RESOURCE_EXHAUSTED')) {
+        throw new StoryError('API quota exceeded for text generation. Please check your plan/billing or try again later.', 429, 'rate-limited', readRetryDelay(lastError.message));
+      }
+
+      // Check for retryable errors (503 Service Unavailable, 502 Bad Gateway, etc.)
+      const isRetryableError =
+        isOverloadedError(lastError.message) ||
+        lastError.message.includes('502') || // Bad Gateway
+        lastError.message.includes('500') || // Internal Server Error
+        lastError.message.includes('temporarily unavailable');
+
+      // If it's not a retryable error, throw immediately
+      if (!isRetryableError) {
+        throw new StoryError(lastError.message, 502);
+      }
+
+      // An overloaded model is unlikely to recover within our backoff window, so hand over right away
+      if (hasFallback && isOverloadedError(lastError.message)) {
+        recordFailure(session, model);
+        if (getBreaker(session, model).state !== 'open') {
+          openCircuit(session, model, CIRCUIT_BREAKER_CONFIG.halfOpenRetryTimeout);
+        }
+        throw new FailoverError(lastError.message);
+      }
+
+      // If we've exhausted all retries, record failure and move on
+      if (attempt === RETRY_CONFIG.maxRetries) {
+        recordFailure(session, model);
+        throw new FailoverError(lastError.message);
+      }
+
+      // Calculate delay with exponential backoff and jitter
+      const baseDelay = Math.min(
+        RETRY_CONFIG.baseDelay * Math.pow(RETRY_CONFIG.backoffFactor, attempt),
+        RETRY_CONFIG.maxDelay
+      );
+      const jitter = Math.random() * 0.3 * baseDelay; // Add up to 30% jitter
+      const delayMs = baseDelay + jitter;
+
+      console.log(`Retrying in ${Math.round(delayMs)}ms... (attempt ${attempt + 1}/${RETRY_CONFIG.maxRetries + 1})`);
+      await clock.sleep(delayMs);
+    }
+  }
+
+  // This should never be reached, but just in case
+  throw new FailoverError(lastError ? lastError.message : 'Unknown error occurred during retry attempts');
+};
+
+/**
+ * Runs a turn on the first usable model in the configured order. Models whose circuit is open are
+ * skipped, so the session sticks to whichever fallback is working until the primary's probe succeeds.
+ * Resolves to { text, model, usage } so the client can show which model narrated the turn and what it cost;
+ * usage holds the turn's tokens, how long it took and how many calls it needed.
+ */
+const runTurnWithFailover = async (session, attemptTurn) => {
+  const models = config.gemini.models;
+  const startedAt = clock.now(); // Virtual during replays, so the metered latency includes the backoff waits
+  const meter = { attempts: 0 };
+  let lastError = null;
+
+  for (let index = 0; index < models.length; index++) {
+    const model = models[index];
+    if (!canAttempt(session, model)) continue;
+
+    const hasFallback = models.slice(index + 1).some(next => isAvailable(session, next));
+    try {
+      const { text, usageMetadata = {} } = await runTurnOnModel(session, model, attemptTurn, hasFallback, meter);
+      if (session.activeModel !== model) {
+        console.log(`Session ${session.id} is now narrated by ${model}`);
+        session.activeModel = model;
+      }
+      return {
+        text,
+        model,
+        usage: {
+          model,
+          inputTokens: usageMetadata.promptTokenCount || 0,
+          outputTokens: usageMetadata.candidatesTokenCount || 0,
+          latencyMs: clock.now() - startedAt,
+          attempts: meter.attempts,
+        },
+      };
+    } catch (error) {
+      if (!(error instanceof FailoverError)) throw error;
+      lastError = error;
+      console.log(`${model} failed, trying the next model in the failover order...`);
+    }
+  }
+
+  if (lastError && isOverloadedError(lastError.message)) {
+    throw new StoryError('The Gemini AI service is currently overloaded. Please try again in a few minutes. If the problem persists, consider switching to a different model or checking Google AI Studio for service status.', 503, 'overloaded', secondsUntilAvailable(session));
+  }
+  if (lastError) {
+    throw new StoryError(lastError.message, 502);
+  }
+  throw new StoryError('All configured AI models are temporarily unavailable due to repeated failures. Please wait a moment and try again.', 503, 'overloaded', secondsUntilAvailable(session));
+};
+
+const sendMessage = (session, message) =>
+  runTurnWithFailover(session, async (chat) => {
+    const response = await chat.sendMessage({ message });
+    return { text: response.text, usageMetadata: response.usageMetadata };
+  });
+
+/**
+ * A one-off request alongside the story, e.g. asking for a broken reply to be repaired. It runs on the session's
+ * circuit breakers, so it goes to the model the session has failed over to, but leaves the session's history alone.
+ */
+const complete = (session, systemInstruction, prompt) =>
+  sendMessage({ ...session, systemInstruction, history: [] }, prompt);
+
+/**
+ * Streams a turn, calling onChunk with each piece of text. If a partially streamed attempt
+ * fails and is retried or handed to another model, onRestart is called so the client can
+ * discard what it received.
+ */
+const streamMessage = (session, message, { onChunk, onRestart }) => {
+  let hasEmitted = false;
+
+  return runTurnWithFailover(session, async (chat) => {
+    if (hasEmitted) {
+      hasEmitted = false;
+      onRestart();
+    }
+
+    const stream = await chat.sendMessageStream({ message });
+    let responseText = '';
+    let usageMetadata;
+    for await (const chunk of stream) {
+      const text = chunk.text || '';
+      if (text) {
+        responseText += text;
+        hasEmitted = true;
+        onChunk(text);
+      }
+      // Token counts arrive with the last chunk
+      usageMetadata = chunk.usageMetadata || usageMetadata;
+    }
+    return { text: responseText, usageMetadata };
+  });
+};
+
+// Puts new text in place of the model's last reply, e.g. a repaired or moderated turn, so the next turn continues
+// from what the player saw. The session keeps its model and circuit breakers. Returns false when there is no reply.
+const replaceLastReply = (session, text) => {
+  const last = session.history[session.history.length - 1];
+  if (!last || last.role !== 'model') return false;
+  session.history[session.history.length - 1] = toContent({ role: 'model', text });
+  return true;
+};
+
+// Moves the session off the model that has been narrating it, on the player's request. The model's circuit is
+// opened, so it is skipped until its probe comes round like any other failing model. Resolves to the new model.
+const switchModel = (session) => {
+  const models = config.gemini.models;
+  const current = models.indexOf(session.activeModel);
+  const next = [...models.slice(current + 1), ...models.slice(0, current)].find(model => isAvailable(session, model));
+  if (!next) {
+    throw new StoryError('There is no other model to switch to (set GEMINI_FALLBACK_MODELS for the proxy server)', 409);
+  }
+  openCircuit(session, session.activeModel, CIRCUIT_BREAKER_CONFIG.resetTimeout);
+  session.activeModel = next;
+  return next;
+};
+
+module.exports = {
+  StoryError,
+  createSession,
+  getSession,
+  deleteSession,
+  sendMessage,
+  streamMessage,
+  complete,
+  replaceLastReply,
+  switchModel,
+  getSessionCount: () => sessions.size,
+};
@@ -0,0 +1,26 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { startReplayProxy } = require('./replayProxy');
+
+// A cache budget smaller than any one image: each image is served until the next one replaces it
+
+let proxy;
+before(async () => {
+  proxy = await startReplayProxy(path.join(__dirname, '..', 'tapes', 'overloaded-malformed.json'), {
+    IMAGE_PROVIDERS: 'placeholder',
+    IMAGE_CACHE_MAX_MB: '0.0001',
+  });
+});
+after(() => proxy.stop());
+
+test('serves an image larger than the whole cache budget', async () => {
+  const first = await proxy.post('/api/generate-image', { prompt: 'A lighthouse in a storm', seed: 1 });
+  assert.equal(first.status, 200);
+  assert.equal((await fetch(`${proxy.url}${first.body.imageUrl}`)).status, 200);
+
+  const second = await proxy.post('/api/generate-image', { prompt: 'A harbour at dawn', seed: 1 });
+  assert.equal(second.status, 200);
+  assert.equal((await fetch(`${proxy.url}${second.body.imageUrl}`)).status, 200);
+  assert.equal((await fetch(`${proxy.url}${first.body.imageUrl}`)).status, 404);
+});
@@ -0,0 +1,34 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { startReplayProxy } = require('./replayProxy');
+
+// Image provider fallback: a failing provider hands over to the next and sits out a cooldown
+
+let proxy;
+before(async () => { proxy = await startReplayProxy(path.join(__dirname, 'tapes', 'image-fallback.json')); });
+after(() => proxy.stop());
+
+const generate = (prompt) => proxy.post('/api/generate-image', { prompt, seed: 7 });
+
+test('falls back to placeholder art when Cloudflare fails', async () => {
+  const { status, body } = await generate('A lighthouse in a storm');
+  assert.equal(status, 200);
+  assert.match(body.imageUrl, /\.svg$/);
+
+  const image = await fetch(`${proxy.url}${body.imageUrl}`);
+  assert.equal(image.status, 200);
+  assert.match(await image.text(), /A lighthouse in a storm/);
+});
+
+test('skips Cloudflare while it cools down, then tries it again', async () => {
+  const coolingDown = await generate('A harbour at dawn');
+  assert.match(coolingDown.body.imageUrl, /\.svg$/);
+
+  await proxy.advanceClock(31);
+  const recovered = await generate('A harbour at noon');
+  assert.match(recovered.body.imageUrl, /\.png$/);
+
+  const { providerTape } = await (await fetch(`${proxy.url}/api/status`)).json();
+  assert.deepEqual(providerTape.remaining, { cloudflare: 0 });
+});
@@ -0,0 +1,70 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { startReplayProxy } = require('./replayProxy');
+
+// The tape shipped with the proxy, played through the routes the game calls, in the order it calls them
+
+const TAPE = path.join(__dirname, '..', 'tapes', 'overloaded-malformed.json');
+
+let proxy;
+before(async () => { proxy = await startReplayProxy(TAPE); });
+after(() => proxy.stop());
+
+// The "done" or "error" event of a streamed turn
+const readFinalEvent = (body) => {
+  const events = body.trim().split('\n\n').map(block => ({
+    event: /^event: (.*)$/m.exec(block)[1],
+    data: JSON.parse(/^data: (.*)$/m.exec(block)[1]),
+  }));
+  return events[events.length - 1];
+};
+
+const waitForImageJob = async (jobId) => {
+  for (;;) {
+    const job = await (await fetch(`${proxy.url}/api/images/jobs/${jobId}`)).json();
+    if (job.status !== 'queued' && job.status !== 'running') return job;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+test('the shipped overloaded-malformed tape replays end to end', async () => {
+  const { body: { sessionId } } = await proxy.post('/api/story/sessions', { systemInstruction: 'Narrate.' });
+
+  // The primary is overloaded, so the opening scene fails over to the fallback
+  const opening = await fetch(`${proxy.url}/api/story/sessions/${sessionId}/messages`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message: 'Start the adventure.', stream: true }),
+  });
+  const done = readFinalEvent(await opening.text());
+  assert.equal(done.event, 'done');
+  assert.equal(done.data.model, 'gemini-1.5-flash');
+  assert.match(JSON.parse(done.data.text).sceneDescription, /Greyharbour/);
+
+  // Cloudflare is rate limited, so the placeholder paints the scene
+  const { status, body: queued } = await proxy.post('/api/images/jobs', { prompt: 'Rainy harbour town at dusk' });
+  assert.equal(status, 202);
+  const job = await waitForImageJob(queued.id);
+  assert.equal(job.status, 'succeeded');
+  assert.match(job.imageUrl, /^\/api\/images\/files\/[a-f0-9]{64}\.svg$/);
+
+  // The fallback's next reply is not JSON, and the repair goes to the same model
+  const broken = await proxy.post(`/api/story/sessions/${sessionId}/messages`, { message: 'Follow the lamplighter.' });
+  assert.equal(broken.status, 200);
+  assert.throws(() => JSON.parse(broken.body.text));
+  const repair = await proxy.post(`/api/story/sessions/${sessionId}/completions`, { systemInstruction: 'Narrate.', prompt: 'Repair this reply.' });
+  assert.equal(repair.status, 200);
+  assert.equal(repair.body.model, 'gemini-1.5-flash');
+  assert.match(JSON.parse(repair.body.text).sceneDescription, /chalk crescent/);
+
+  const replaced = await fetch(`${proxy.url}/api/story/sessions/${sessionId}/last-reply`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text: repair.body.text }),
+  });
+  assert.equal(replaced.status, 204);
+
+  const { providerTape } = await (await fetch(`${proxy.url}/api/status`)).json();
+  assert.deepEqual(providerTape.remaining, { gemini: 0, cloudflare: 0 });
+});
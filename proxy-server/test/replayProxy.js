@@ -0,0 +1,93 @@
+const { spawn } = require('child_process');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+
+// Starts the proxy on a free port, replaying a provider tape in virtual time, for tests of the proxy and the client.
+// Each proxy gets its own image cache, so runs never share or leave images behind.
+
+const SERVER_FILE = path.join(__dirname, '..', 'server.js');
+const START_TIMEOUT_MS = 10 * 1000;
+
+const findFreePort = () => new Promise((resolve, reject) => {
+  const probe = net.createServer();
+  probe.unref();
+  probe.on('error', reject);
+  probe.listen(0, () => {
+    const { port } = probe.address();
+    probe.close(() => resolve(port));
+  });
+});
+
+/**
+ * Resolves to { url, post, advanceClock, stop } once the proxy is listening. env adds to or overrides the proxy's
+ * environment, e.g. a budget. A replay never calls a real provider, so no credentials are needed.
+ */
+const startReplayProxy = async (tapeFile, env = {}) => {
+  const port = await findFreePort();
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'simulated-souls-images-'));
+  const child = spawn(process.execPath, [SERVER_FILE], {
+    env: {
+      ...process.env,
+      // The defaults the tapes were written for, whatever a developer's .env.local says
+      GEMINI_MODEL: 'gemini-2.0-flash',
+      GEMINI_FALLBACK_MODELS: 'gemini-1.5-flash',
+      IMAGE_PROVIDERS: 'cloudflare,placeholder',
+      PROVIDER_TAPE_MODE: 'replay',
+      PROVIDER_TAPE: tapeFile,
+      PROXY_PORT: String(port),
+      IMAGE_CACHE_DIR: cacheDir,
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let output = '';
+  await new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`The proxy did not start:\n${output}`));
+    }, START_TIMEOUT_MS);
+    child.stdout.on('data', (chunk) => {
+      output += chunk;
+      if (output.includes('running at')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+    child.stderr.on('data', (chunk) => { output += chunk; });
+    child.on('exit', (code) => {
+      clearTimeout(timer);
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+      reject(new Error(`The proxy exited with code ${code}:\n${output}`));
+    });
+  });
+
+  const url = `http://localhost:${port}`;
+  const post = async (route, body) => {
+    const response = await fetch(`${url}${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: response.status === 204 ? null : await response.json() };
+  };
+
+  return {
+    url,
+    post,
+    // Moves the proxy's virtual clock on and resolves to its new time in milliseconds
+    advanceClock: async (seconds) => Date.parse((await post('/api/tape/clock', { advanceSeconds: seconds })).body.now),
+    stop: () => new Promise((resolve) => {
+      child.removeAllListeners('exit');
+      child.once('exit', () => {
+        fs.rmSync(cacheDir, { recursive: true, force: true });
+        resolve();
+      });
+      child.kill();
+    }),
+  };
+};
+
+module.exports = { startReplayProxy };
@@ -0,0 +1,80 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const WebSocket = require('ws');
+const { startReplayProxy } = require('./replayProxy');
+
+// A shared adventure's rounds, played by a host and a guest over the room socket
+
+let proxy;
+before(async () => {
+  proxy = await startReplayProxy(path.join(__dirname, 'tapes', 'backoff.json'));
+});
+after(() => proxy.stop());
+
+// A player's socket, with a way to wait for the next message of a type
+const connect = async () => {
+  const socket = new WebSocket(`${proxy.url.replace('http', 'ws')}/api/rooms`);
+  const received = [];
+  const waiting = [];
+  socket.on('message', (data) => {
+    const message = JSON.parse(data);
+    const index = waiting.findIndex(({ type }) => type === message.type);
+    if (index === -1) return received.push(message);
+    waiting.splice(index, 1)[0].resolve(message);
+  });
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+  return {
+    send: (message) => socket.send(JSON.stringify(message)),
+    next: (type) => {
+      const index = received.findIndex(message => message.type === type);
+      if (index !== -1) return Promise.resolve(received.splice(index, 1)[0]);
+      return new Promise(resolve => waiting.push({ type, resolve }));
+    },
+    close: () => socket.close(),
+  };
+};
+
+test("a round the host's game turns away is played again, with the host's notice of why", async () => {
+  const host = await connect();
+  const guest = await connect();
+  try {
+    host.send({ type: 'create', name: 'Aria' });
+    const { code } = await host.next('joined');
+    guest.send({ type: 'join', code, name: 'Bram' });
+    await guest.next('joined');
+
+    host.send({ type: 'action', text: 'I open the door' });
+    guest.send({ type: 'action', text: 'I draw my sword' });
+    const round = await host.next('round');
+    // Lines come in the order the actions arrived
+    assert.deepEqual(round.action.split('\n').sort(), ['Aria: I open the door', 'Bram: I draw my sword']);
+
+    const notice = 'That round includes graphic violence, which a family story leaves out - please act again.';
+    host.send({ type: 'roundDone', ok: false, notice });
+    assert.equal((await guest.next('notice')).message, notice);
+  } finally {
+    host.close();
+    guest.close();
+  }
+});
+
+test('a failed round without a notice says the narrator lost the thread', async () => {
+  const host = await connect();
+  try {
+    host.send({ type: 'create', name: 'Aria' });
+    await host.next('joined');
+    host.send({ type: 'action', text: 'I open the door' });
+    await host.next('round');
+
+    host.send({ type: 'roundDone', ok: false, notice: 7 });
+    assert.match((await host.next('error')).error, /notice must be a string/);
+    host.send({ type: 'roundDone', ok: false });
+    assert.match((await host.next('notice')).message, /lost the thread/);
+  } finally {
+    host.close();
+  }
+});
@@ -0,0 +1,106 @@
+const { test, describe, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { startReplayProxy } = require('./replayProxy');
+
+// Retries, backoff, failover and the circuit breakers, driven by hand-written tapes in virtual time.
+// A replayed turn sent to another model than the tape names fails, so each tape also pins down the failover order.
+
+const tape = (name) => path.join(__dirname, 'tapes', name);
+
+const startSession = async (proxy) =>
+  (await proxy.post('/api/story/sessions', { systemInstruction: 'Narrate.' })).body.sessionId;
+
+const sendTurn = (proxy, sessionId, message = 'Look around.') =>
+  proxy.post(`/api/story/sessions/${sessionId}/messages`, { message });
+
+describe('retries and backoff', () => {
+  let proxy;
+  let sessionId;
+  before(async () => {
+    proxy = await startReplayProxy(tape('backoff.json'));
+    sessionId = await startSession(proxy);
+  });
+  after(() => proxy.stop());
+
+  test('retries a failing model with exponential backoff, waited out on the virtual clock', async () => {
+    const startedAt = await proxy.advanceClock(0);
+    const { status, body } = await sendTurn(proxy, sessionId);
+    const waited = (await proxy.advanceClock(0)) - startedAt;
+
+    assert.equal(status, 200);
+    assert.equal(body.model, 'gemini-2.0-flash');
+    assert.equal(body.usage.retries, 2);
+    assert.equal(body.usage.inputTokens, 400);
+    // 1s then 2s, each with up to 30% jitter
+    assert.ok(waited >= 3000 && waited <= 3900, `waited ${waited}ms`);
+    assert.equal(Math.floor(body.usage.latencyMs), waited); // The clock route reports whole milliseconds
+  });
+
+  test('gives up at once on a used-up quota, passing on how long to wait', async () => {
+    const startedAt = await proxy.advanceClock(0);
+    const { status, body } = await sendTurn(proxy, sessionId);
+
+    assert.equal(status, 429);
+    assert.equal(body.code, 'rate-limited');
+    assert.equal(body.retryAfter, 37);
+    assert.equal(await proxy.advanceClock(0), startedAt);
+  });
+
+  test('gives up at once on a rejected API key', async () => {
+    const { status, body } = await sendTurn(proxy, sessionId);
+    assert.equal(status, 401);
+    assert.equal(body.code, 'auth');
+  });
+});
+
+describe('failover and circuit breakers', () => {
+  let proxy;
+  let sessionId;
+  before(async () => {
+    proxy = await startReplayProxy(tape('failover.json'));
+    sessionId = await startSession(proxy);
+  });
+  after(() => proxy.stop());
+
+  test('hands an overloaded turn straight to the fallback model', async () => {
+    const { status, body } = await sendTurn(proxy, sessionId);
+    assert.equal(status, 200);
+    assert.equal(body.model, 'gemini-1.5-flash');
+    assert.equal(body.usage.retries, 1);
+  });
+
+  test('stays on the fallback while the primary\'s circuit is open', async () => {
+    const { body } = await sendTurn(proxy, sessionId);
+    assert.equal(body.model, 'gemini-1.5-flash');
+    assert.equal(body.usage.retries, 0);
+  });
+
+  test('a failed probe keeps the circuit open for the full reset timeout', async () => {
+    await proxy.advanceClock(11);
+    const probe = await sendTurn(proxy, sessionId);
+    assert.equal(probe.body.model, 'gemini-1.5-flash');
+    assert.equal(probe.body.usage.retries, 1);
+
+    await proxy.advanceClock(11);
+    const skipped = await sendTurn(proxy, sessionId);
+    assert.equal(skipped.body.model, 'gemini-1.5-flash');
+    assert.equal(skipped.body.usage.retries, 0);
+  });
+
+  test('returns to the primary once its probe succeeds', async () => {
+    await proxy.advanceClock(20);
+    const { body } = await sendTurn(proxy, sessionId);
+    assert.equal(body.model, 'gemini-2.0-flash');
+  });
+
+  test('reports an overload, with when to try again, once every model has failed', async () => {
+    const { status, body } = await sendTurn(proxy, sessionId);
+    assert.equal(status, 503);
+    assert.equal(body.code, 'overloaded');
+    assert.ok(body.retryAfter >= 1 && body.retryAfter <= 10, `retryAfter ${body.retryAfter}`);
+
+    const { providerTape } = await (await fetch(`${proxy.url}/api/status`)).json();
+    assert.deepEqual(providerTape.remaining, { gemini: 0 });
+  });
+});
@@ -0,0 +1,40 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { startReplayProxy } = require('./replayProxy');
+
+// Usage is metered per adventure, across the sessions a game goes through as it is loaded, rewound and summarised
+
+let proxy;
+before(async () => {
+  proxy = await startReplayProxy(path.join(__dirname, 'tapes', 'adventure-budget.json'), { SESSION_TOKEN_HARD_LIMIT: '400' });
+});
+after(() => proxy.stop());
+
+const playTurn = async (adventureId) => {
+  const { body: { sessionId } } = await proxy.post('/api/story/sessions', { systemInstruction: 'Narrate.', adventureId });
+  return proxy.post(`/api/story/sessions/${sessionId}/messages`, { message: 'Walk on.' });
+};
+
+test("the adventure's hard token budget holds across its sessions", async () => {
+  assert.equal((await playTurn('adventure-1')).status, 200);
+
+  // e.g. the same game after a rewind, which starts a new session
+  const refused = await playTurn('adventure-1');
+  assert.equal(refused.status, 429);
+  assert.equal(refused.body.code, 'budget');
+
+  // Another game has its own budget
+  assert.equal((await playTurn('adventure-2')).status, 200);
+
+  const report = await (await fetch(`${proxy.url}/api/usage`)).json();
+  assert.deepEqual(report.adventures.map(({ adventureId, turns, inputTokens }) => ({ adventureId, turns, inputTokens })), [
+    { adventureId: 'adventure-1', turns: 1, inputTokens: 450 },
+    { adventureId: 'adventure-2', turns: 1, inputTokens: 450 },
+  ]);
+});
+
+test('rejects an adventure id that is not a string', async () => {
+  const { status } = await proxy.post('/api/story/sessions', { systemInstruction: 'Narrate.', adventureId: 7 });
+  assert.equal(status, 400);
+});
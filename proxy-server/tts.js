@@ -0,0 +1,89 @@
+const config = require('./config');
+
+// Spoken narration from a locally hosted text-to-speech engine speaking the OpenAI speech API
+// (POST { model, input, voice, speed, response_format } -> audio), as Kokoro-FastAPI, openedai-speech and LocalAI do.
+// Off unless TTS_URL is set; the game then narrates with the browser's own voices.
+
+const MAX_TEXT_LENGTH = 4096; // The OpenAI speech API's own limit
+const SYNTHESIS_TIMEOUT_MS = 60 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+// An error carrying the HTTP status the route should answer with
+class TtsError extends Error {
+  constructor(message, status, details) {
+    super(message);
+    this.name = 'TtsError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+const isConfigured = () => !!config.tts.url;
+
+// Returns an error message for a bad request body, or null when it is fine
+const validateSpeechRequest = ({ text, voice, speed }) => {
+  if (!text || typeof text !== 'string') return 'text is required';
+  if (text.length > MAX_TEXT_LENGTH) return `text must be at most ${MAX_TEXT_LENGTH} characters`;
+  if (voice !== undefined && typeof voice !== 'string') return 'voice must be a string';
+  if (speed !== undefined && (typeof speed !== 'number' || speed < 0.25 || speed > 4)) return 'speed must be a number from 0.25 to 4';
+  return null;
+};
+
+/**
+ * Reads the text aloud with the engine, resolving to { data, contentType }. The signal aborts the synthesis,
+ * e.g. when the player skips the narration before it arrives.
+ */
+const synthesize = async ({ text, voice, speed = 1 }, signal) => {
+  let response;
+  try {
+    response = await fetch(config.tts.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.tts.model,
+        input: text,
+        voice: voice || config.tts.voices[0] || 'alloy',
+        speed,
+        response_format: config.tts.format,
+      }),
+      signal: AbortSignal.any([signal, AbortSignal.timeout(SYNTHESIS_TIMEOUT_MS)]),
+    });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    throw new TtsError(`Could not reach the text-to-speech engine at ${config.tts.url}: ${error.message}`, 502);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new TtsError(`Text-to-speech engine error: ${response.status} ${response.statusText}`, 502, errorText);
+  }
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    contentType: response.headers.get('content-type') || `audio/${config.tts.format}`,
+  };
+};
+
+// What /api/tts and /api/status report: whether server narration is on, and the voices to offer
+const getStats = () => ({
+  configured: isConfigured(),
+  voices: isConfigured() ? config.tts.voices : [],
+});
+
+// Whether the engine answers at all; engines don't agree on a health route, so any reply from its host will do
+const checkHealth = async () => {
+  if (!isConfigured()) return { ...getStats(), healthy: false };
+  try {
+    await fetch(new URL(config.tts.url).origin, { signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS) });
+    return { ...getStats(), healthy: true };
+  } catch (error) {
+    return { ...getStats(), healthy: false, error: error.message };
+  }
+};
+
+module.exports = {
+  isConfigured,
+  validateSpeechRequest,
+  synthesize,
+  getStats,
+  checkHealth,
+};
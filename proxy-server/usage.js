@@ -0,0 +1,195 @@
+const config = require('./config');
+
+// Usage metering: tokens, latency and retries of every story turn and the count and timing of every image
+// generation, summed per adventure and per day, with an estimated cost and the configured budgets. An adventure is
+// named by the client and outlives its story sessions, which are replaced on every load, rewind and summary.
+// Soft budgets only add warnings to replies; hard budgets refuse new turns or images before the provider's quota does.
+
+// An error carrying the HTTP status the route should answer with; its code tells the client a budget was hit
+class BudgetError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'BudgetError';
+    this.status = 429;
+    this.code = 'budget';
+  }
+}
+
+const DAYS_KEPT = 7;
+const ADVENTURE_USAGE_TTL_MS = 24 * 60 * 60 * 1000; // How long an adventure nobody plays stays in the report
+
+const createTotals = () => ({
+  turns: 0,
+  attempts: 0, // Provider calls made for those turns, including retries and failovers
+  inputTokens: 0,
+  outputTokens: 0,
+  turnTimeMs: 0,
+  models: {}, // Model name -> turns it narrated
+  images: 0,
+  paidImages: 0, // Images from providers that charge for them, which the image budget and price apply to
+  imageFailures: 0,
+  imageTimeMs: 0,
+  providers: {}, // Image provider name -> images it painted
+});
+
+const days = new Map(); // 'YYYY-MM-DD' (UTC) -> totals
+const adventures = new Map(); // Adventure id -> totals plus startedAt and lastUsed
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const getDay = (date = today()) => {
+  if (!days.has(date)) {
+    days.set(date, createTotals());
+    // Drop the oldest days; dates sort as strings
+    for (const old of [...days.keys()].sort().slice(0, -DAYS_KEPT)) {
+      days.delete(old);
+    }
+  }
+  return days.get(date);
+};
+
+const getAdventureTotals = (adventureId) => {
+  if (!adventures.has(adventureId)) {
+    adventures.set(adventureId, { ...createTotals(), startedAt: Date.now(), lastUsed: Date.now() });
+  }
+  const totals = adventures.get(adventureId);
+  totals.lastUsed = Date.now();
+  return totals;
+};
+
+setInterval(() => {
+  const cutoff = Date.now() - ADVENTURE_USAGE_TTL_MS;
+  for (const [id, totals] of adventures) {
+    if (totals.lastUsed < cutoff) {
+      adventures.delete(id);
+    }
+  }
+}, 60 * 60 * 1000).unref();
+
+const estimateTurnCost = ({ inputTokens, outputTokens }) =>
+  (inputTokens * config.usage.prices.inputPerMillionTokens + outputTokens * config.usage.prices.outputPerMillionTokens) / 1e6;
+
+const estimateCost = (totals) => estimateTurnCost(totals) + totals.paidImages * config.usage.prices.perImage;
+
+const roundCost = (cost) => Math.round(cost * 1e6) / 1e6;
+
+const addTurn = (totals, turn) => {
+  totals.turns++;
+  totals.attempts += turn.attempts;
+  totals.inputTokens += turn.inputTokens;
+  totals.outputTokens += turn.outputTokens;
+  totals.turnTimeMs += turn.latencyMs;
+  totals.models[turn.model] = (totals.models[turn.model] || 0) + 1;
+};
+
+/**
+ * Meters a finished story turn of an adventure: { model, inputTokens, outputTokens, latencyMs, attempts }. Returns the
+ * turn's usage as the client sees it, with its retries, estimated cost and the warnings of any soft budget now passed.
+ */
+const recordTurn = (adventureId, turn) => {
+  addTurn(getDay(), turn);
+  addTurn(getAdventureTotals(adventureId), turn);
+  const warnings = getWarnings(adventureId);
+  return {
+    inputTokens: turn.inputTokens,
+    outputTokens: turn.outputTokens,
+    latencyMs: turn.latencyMs,
+    retries: turn.attempts - 1,
+    estimatedCostUsd: roundCost(estimateTurnCost(turn)),
+    ...(warnings.length > 0 && { warnings }),
+  };
+};
+
+// Meters one image provider call; cached images cost nothing and are not counted
+const recordImage = ({ provider, paid, latencyMs, ok }) => {
+  const day = getDay();
+  if (!ok) {
+    day.imageFailures++;
+    return;
+  }
+  day.images++;
+  if (paid) day.paidImages++;
+  day.imageTimeMs += latencyMs;
+  day.providers[provider] = (day.providers[provider] || 0) + 1;
+};
+
+// Each budget is { soft, hard }, where 0 means no limit
+const BUDGETS = [
+  { key: 'sessionTokens', label: "this adventure's tokens", read: (day, adventure) => adventure ? adventure.inputTokens + adventure.outputTokens : 0 },
+  { key: 'dailyTokens', label: "today's tokens", read: (day) => day.inputTokens + day.outputTokens },
+  { key: 'dailyTurns', label: "today's turns", read: (day) => day.turns },
+  { key: 'dailyImages', label: "today's paid images", read: (day) => day.paidImages },
+];
+
+const describeBudget = (budget, used, limit) => `${used} of ${limit} ${budget.label} used`;
+
+// Warnings for every soft budget passed, for the adventure when given
+const getWarnings = (adventureId) => {
+  const day = getDay();
+  const adventure = adventureId ? adventures.get(adventureId) : null;
+  return BUDGETS.flatMap(budget => {
+    const { soft } = config.usage.budgets[budget.key];
+    const used = budget.read(day, adventure);
+    return soft > 0 && used >= soft ? [describeBudget(budget, used, soft)] : [];
+  });
+};
+
+const checkHardBudgets = (keys, adventureId) => {
+  const day = getDay();
+  const adventure = adventureId ? adventures.get(adventureId) : null;
+  for (const budget of BUDGETS.filter(budget => keys.includes(budget.key))) {
+    const { hard } = config.usage.budgets[budget.key];
+    const used = budget.read(day, adventure);
+    if (hard > 0 && used >= hard) {
+      throw new BudgetError(`Usage budget reached: ${describeBudget(budget, used, hard)}. Raise the limit in .env.local or wait until tomorrow (UTC).`);
+    }
+  }
+};
+
+// Throws BudgetError when a hard budget leaves no room for another turn of the adventure
+const checkTurnBudget = (adventureId) => checkHardBudgets(['sessionTokens', 'dailyTokens', 'dailyTurns'], adventureId);
+
+const checkImageBudget = () => checkHardBudgets(['dailyImages']);
+
+const summarizeTurns = (totals) => ({
+  turns: totals.turns,
+  retries: totals.attempts - totals.turns,
+  inputTokens: totals.inputTokens,
+  outputTokens: totals.outputTokens,
+  averageTurnMs: totals.turns ? Math.round(totals.turnTimeMs / totals.turns) : null,
+  models: totals.models,
+});
+
+// Images are only metered per day: image requests don't say which adventure they belong to
+const summarizeDay = (totals) => ({
+  ...summarizeTurns(totals),
+  images: totals.images,
+  paidImages: totals.paidImages,
+  imageFailures: totals.imageFailures,
+  averageImageMs: totals.images ? Math.round(totals.imageTimeMs / totals.images) : null,
+  imageProviders: totals.providers,
+  estimatedCostUsd: roundCost(estimateCost(totals)),
+});
+
+// The usage report for /api/status and /api/usage: today, the last few days, and each recent adventure
+const getReport = () => ({
+  today: { date: today(), ...summarizeDay(getDay()) },
+  days: [...days.entries()].sort(([a], [b]) => b.localeCompare(a)).map(([date, totals]) => ({ date, ...summarizeDay(totals) })),
+  adventures: [...adventures.entries()].map(([adventureId, totals]) => ({
+    adventureId,
+    startedAt: new Date(totals.startedAt).toISOString(),
+    ...summarizeTurns(totals),
+    estimatedCostUsd: roundCost(estimateTurnCost(totals)),
+  })),
+  budgets: config.usage.budgets,
+  warnings: getWarnings(),
+});
+
+module.exports = {
+  BudgetError,
+  recordTurn,
+  recordImage,
+  checkTurnBudget,
+  checkImageBudget,
+  getReport,
+};
@@ -0,0 +1,132 @@
+import type { Campaign, ContentRating, RuleSystem } from '../types';
+import { RULE_SYSTEMS } from './rules';
+
+const CUSTOM_CAMPAIGNS_KEY = "simulated-souls:campaigns";
+const CONTENT_RATINGS: ContentRating[] = ['family', 'teen', 'mature'];
+const CAMPAIGN_TEXT_FIELDS = ['name', 'genre', 'premise', 'tone', 'artStyle', 'openingHook'] as const;
+
+export const BUILT_IN_CAMPAIGNS: Campaign[] = [
+  {
+    id: "builtin-dungeon",
+    name: "The Forgotten Dungeon",
+    genre: "High fantasy",
+    premise: "A lone adventurer explores a dungeon beneath a ruined keep, rumoured to hold a relic that can end a long war.",
+    tone: "Heroic and mysterious, with moments of danger",
+    contentRating: "teen",
+    artStyle: "epic fantasy art",
+    openingHook: "The player stands before the keep's collapsed gate as night falls, a storm rolling in.",
+    ruleSystem: "d20",
+    builtIn: true,
+  },
+  {
+    id: "builtin-neon",
+    name: "Neon Rain",
+    genre: "Cyberpunk noir",
+    premise: "A down-on-their-luck investigator is hired to find a missing engineer in a megacity ruled by corporations.",
+    tone: "Gritty, moody and cynical, with dry humour",
+    contentRating: "mature",
+    artStyle: "cyberpunk digital painting, neon lights, rain-soaked streets",
+    openingHook: "A client with a corporate badge and a shaking hand waits in the player's cramped office.",
+    ruleSystem: "2d6",
+    builtIn: true,
+  },
+  {
+    id: "builtin-meadow",
+    name: "Whispering Meadow",
+    genre: "Cozy fairy tale",
+    premise: "A young villager sets out to learn why the animals of the meadow have stopped singing.",
+    tone: "Gentle, whimsical and warm",
+    contentRating: "family",
+    artStyle: "storybook watercolor illustration",
+    openingHook: "On a bright spring morning, a worried hedgehog knocks on the player's door.",
+    ruleSystem: "percentile",
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_CAMPAIGN: Campaign = BUILT_IN_CAMPAIGNS[0];
+
+// Every scene of a campaign is painted from the same seed, so its pictures share a consistent look
+export const getCampaignImageSeed = (campaign: Campaign): number => {
+  // FNV-1a hash of the id: stable across sessions and saves without storing anything
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < campaign.id.length; i++) {
+    hash = Math.imul(hash ^ campaign.id.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const loadCustomCampaigns = (): Campaign[] => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_CAMPAIGNS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to load campaign presets:", error);
+    return [];
+  }
+};
+
+const storeCustomCampaigns = (campaigns: Campaign[]): void => {
+  localStorage.setItem(CUSTOM_CAMPAIGNS_KEY, JSON.stringify(campaigns));
+};
+
+// Saves a campaign as a custom preset, replacing any preset with the same id
+export const saveCustomCampaign = (campaign: Campaign): Campaign[] => {
+  const preset = { ...campaign, builtIn: false };
+  const campaigns = [...loadCustomCampaigns().filter(existing => existing.id !== preset.id), preset];
+  storeCustomCampaigns(campaigns);
+  return campaigns;
+};
+
+export const deleteCustomCampaign = (id: string): Campaign[] => {
+  const campaigns = loadCustomCampaigns().filter(campaign => campaign.id !== id);
+  storeCustomCampaigns(campaigns);
+  return campaigns;
+};
+
+export const exportCampaigns = (campaigns: Campaign[]): string =>
+  JSON.stringify(campaigns.map(({ builtIn: _builtIn, ...campaign }) => campaign), null, 2);
+
+const validateCampaign = (value: unknown, index: number): Campaign => {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Campaign ${index + 1} is not an object.`);
+  }
+  const record = value as Record<string, unknown>;
+  for (const field of CAMPAIGN_TEXT_FIELDS) {
+    if (typeof record[field] !== 'string' || !(record[field] as string).trim()) {
+      throw new Error(`Campaign ${index + 1} is missing "${field}".`);
+    }
+  }
+  if (!CONTENT_RATINGS.includes(record.contentRating as ContentRating)) {
+    throw new Error(`Campaign ${index + 1} has an invalid contentRating (expected ${CONTENT_RATINGS.join(', ')}).`);
+  }
+  // Optional, as presets exported before skill checks existed have none
+  if (record.ruleSystem !== undefined && !RULE_SYSTEMS.includes(record.ruleSystem as RuleSystem)) {
+    throw new Error(`Campaign ${index + 1} has an invalid ruleSystem (expected ${RULE_SYSTEMS.join(', ')}).`);
+  }
+
+  return {
+    // Imported presets always get a fresh id so they never overwrite existing ones
+    id: crypto.randomUUID(),
+    name: record.name as string,
+    genre: record.genre as string,
+    premise: record.premise as string,
+    tone: record.tone as string,
+    contentRating: record.contentRating as ContentRating,
+    artStyle: record.artStyle as string,
+    openingHook: record.openingHook as string,
+    ruleSystem: record.ruleSystem as RuleSystem | undefined,
+  };
+};
+
+// Accepts either a single campaign or an array of them, as produced by exportCampaigns
+export const parseCampaignImport = (json: string): Campaign[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const entries = Array.isArray(parsed) ? parsed : [parsed];
+  return entries.map(validateCampaign);
+};
@@ -0,0 +1,43 @@
+import type { PlayerCharacter, Skill } from '../types';
+import { MAX_SKILL, MIN_SKILL, SKILL_POINTS, SKILLS } from './rules';
+
+const createAverageSkills = (): Record<Skill, number> =>
+  Object.fromEntries(SKILLS.map(skill => [skill, 0])) as Record<Skill, number>;
+
+export const createEmptyCharacter = (): PlayerCharacter => ({
+  name: '',
+  background: '',
+  appearance: '',
+  traits: [],
+  startingGear: [],
+  skills: createAverageSkills(),
+});
+
+// Characters from saves made before skill checks existed are average at everything
+const normalizeSkills = (skills: Partial<Record<Skill, number>> = {}): Record<Skill, number> =>
+  Object.fromEntries(SKILLS.map(skill => [skill, Math.min(MAX_SKILL, Math.max(MIN_SKILL, Math.round(skills[skill] ?? 0)))])) as Record<Skill, number>;
+
+// Lowering a skill below zero frees a point for another
+export const getSkillPointsLeft = (skills: Record<Skill, number>): number =>
+  SKILL_POINTS - SKILLS.reduce((total, skill) => total + skills[skill], 0);
+
+// The creation form edits lists as comma separated text, so blank entries are dropped only when the game starts
+export const normalizeCharacter = (character: PlayerCharacter): PlayerCharacter => ({
+  name: character.name.trim(),
+  background: character.background.trim(),
+  appearance: character.appearance.trim(),
+  traits: character.traits.map(trait => trait.trim()).filter(Boolean),
+  startingGear: character.startingGear.map(item => item.trim()).filter(Boolean),
+  skills: normalizeSkills(character.skills),
+});
+
+export const formatSkillModifier = (value: number): string => value > 0 ? `+${value}` : String(value);
+
+export const getCharacterDisplayName = (character: PlayerCharacter): string => character.name || 'Unnamed adventurer';
+
+// The narrator refers to the player character as "the hero" in image prompts; spell out what they look like
+export const applyAppearanceToImagePrompt = (imagePrompt: string, character: PlayerCharacter | null): string => {
+  const appearance = character?.appearance.trim();
+  if (!appearance) return imagePrompt;
+  return imagePrompt.replace(/\bthe hero\b/i, match => `${match} (${appearance})`);
+};
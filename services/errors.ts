@@ -0,0 +1,143 @@
+import type { ModerationDecision } from '../types';
+
+// Everything that can go wrong talking to the storyteller or the image backend, sorted by what the player can do about it
+
+export type GameErrorKind = 'rate-limited' | 'auth' | 'overloaded' | 'malformed-response' | 'network' | 'image' | 'budget' | 'blocked' | 'unknown';
+
+export class GameError extends Error {
+  kind: GameErrorKind;
+  retryAfterSeconds?: number; // How long the service asked us to wait, when it said
+
+  constructor(kind: GameErrorKind, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'GameError';
+    this.kind = kind;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const DEFAULT_RATE_LIMIT_SECONDS = 60;
+
+// The usage quota is used up for now; retrying before retryAfterSeconds only fails again
+export class RateLimitError extends GameError {
+  declare retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds = DEFAULT_RATE_LIMIT_SECONDS) {
+    super('rate-limited', message, retryAfterSeconds);
+    this.name = 'RateLimitError';
+  }
+}
+
+// A missing or rejected API key: retrying will not help until the configuration is fixed
+export class AuthError extends GameError {
+  constructor(message: string) {
+    super('auth', message);
+    this.name = 'AuthError';
+  }
+}
+
+// The model is busy even after the proxy's retries and fallbacks; another model or a short wait may help
+export class OverloadedError extends GameError {
+  constructor(message: string, retryAfterSeconds?: number) {
+    super('overloaded', message, retryAfterSeconds);
+    this.name = 'OverloadedError';
+  }
+}
+
+// The narrator's reply could not be read, even after it was asked to repair it
+export class MalformedResponseError extends GameError {
+  constructor(message: string) {
+    super('malformed-response', message);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+// The server could not be reached at all
+export class NetworkError extends GameError {
+  constructor(message: string) {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+// A picture failed; the story itself is unaffected
+export class ImageGenerationError extends GameError {
+  constructor(message: string) {
+    super('image', message);
+    this.name = 'ImageGenerationError';
+  }
+}
+
+// A hard usage budget on the proxy refuses more turns until it is raised or the day is over
+export class BudgetExceededError extends GameError {
+  constructor(message: string) {
+    super('budget', message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Moderation kept the player's action or image prompt out of the story; sending it again will not help
+export class ContentBlockedError extends GameError {
+  decision: ModerationDecision;
+
+  constructor(message: string, decision: ModerationDecision) {
+    super('blocked', message);
+    this.name = 'ContentBlockedError';
+    this.decision = decision;
+  }
+}
+
+/**
+ * Builds the error for a failed reply. The proxy names the kind of error in its `code`; other servers
+ * are classified by HTTP status.
+ */
+export const createGameError = (status: number, message: string, code?: string, retryAfterSeconds?: number): GameError => {
+  switch (code) {
+    case 'rate-limited':
+      return new RateLimitError(message, retryAfterSeconds);
+    case 'auth':
+      return new AuthError(message);
+    case 'overloaded':
+      return new OverloadedError(message, retryAfterSeconds);
+    case 'image':
+      return new ImageGenerationError(message);
+    case 'budget':
+      return new BudgetExceededError(message);
+  }
+  if (status === 429) return new RateLimitError(message, retryAfterSeconds);
+  if (status === 401 || status === 403) return new AuthError(message);
+  if (status === 503 || status === 504) return new OverloadedError(message, retryAfterSeconds);
+  return new GameError('unknown', message);
+};
+
+// Reads an error reply: the proxy's { error, code, retryAfter }, an OpenAI-style { error: { message } }, or plain text
+export const readErrorResponse = async (response: Response, context: string): Promise<GameError> => {
+  const text = await response.text().catch(() => '');
+  let body: { error?: string | { message?: string }; code?: string; retryAfter?: number } = {};
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON - the text itself is the message
+  }
+  const detail = typeof body.error === 'string' ? body.error : body.error?.message || text || `${response.status} ${response.statusText}`;
+  const retryAfterHeader = Number(response.headers.get('Retry-After'));
+  const retryAfter = body.retryAfter ?? (retryAfterHeader > 0 ? retryAfterHeader : undefined);
+  return createGameError(response.status, `${context}: ${detail}`, body.code, retryAfter);
+};
+
+// fetch() only rejects when the server could not be reached, so that is reported as a network error
+export const fetchOrThrow = async (url: string, init: RequestInit | undefined, unreachableMessage: string): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    console.error(unreachableMessage, error);
+    throw new NetworkError(unreachableMessage);
+  }
+};
+
+// Anything thrown, as a GameError the error panel knows how to present
+export const toGameError = (error: unknown, fallbackMessage: string): GameError => {
+  if (error instanceof GameError) return error;
+  if (error instanceof Error) return new GameError('unknown', error.message);
+  return new GameError('unknown', fallbackMessage);
+};
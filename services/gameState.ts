@@ -0,0 +1,124 @@
+import type { GameState, GameStateDelta, Quest, QuestStatus } from '../types';
+
+const QUEST_STATUSES: QuestStatus[] = ['active', 'completed', 'failed'];
+const DELTA_KEYS = ['itemsGained', 'itemsLost', 'hpChange', 'location', 'questUpdates'];
+
+export const createInitialGameState = (startingGear: string[] = []): GameState => ({
+  hp: 10,
+  maxHp: 10,
+  inventory: [...startingGear],
+  location: 'Unknown',
+  quests: [],
+});
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0);
+
+const sameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Checks that a delta has the shape described in the system instruction
+const validateDeltaShape = (delta: unknown): string[] => {
+  if (typeof delta !== 'object' || delta === null || Array.isArray(delta)) {
+    return ['stateDelta must be an object'];
+  }
+
+  const errors: string[] = [];
+  const record = delta as Record<string, unknown>;
+
+  for (const key of Object.keys(record)) {
+    if (!DELTA_KEYS.includes(key)) {
+      errors.push(`unknown stateDelta field "${key}"`);
+    }
+  }
+  if (record.itemsGained !== undefined && !isStringArray(record.itemsGained)) {
+    errors.push('itemsGained must be an array of item names');
+  }
+  if (record.itemsLost !== undefined && !isStringArray(record.itemsLost)) {
+    errors.push('itemsLost must be an array of item names');
+  }
+  if (record.hpChange !== undefined && !Number.isInteger(record.hpChange)) {
+    errors.push('hpChange must be a whole number');
+  }
+  if (record.location !== undefined && (typeof record.location !== 'string' || !record.location.trim())) {
+    errors.push('location must be a non-empty string');
+  }
+  if (record.questUpdates !== undefined) {
+    if (!Array.isArray(record.questUpdates)) {
+      errors.push('questUpdates must be an array');
+    } else {
+      record.questUpdates.forEach((quest: unknown, index: number) => {
+        const q = quest as Partial<Quest> | null;
+        if (typeof q !== 'object' || q === null || typeof q.title !== 'string' || !q.title.trim()) {
+          errors.push(`questUpdates[${index}] must have a title`);
+        } else if (!QUEST_STATUSES.includes(q.status as QuestStatus)) {
+          errors.push(`questUpdates[${index}] has invalid status "${String(q.status)}"`);
+        } else if (q.description !== undefined && typeof q.description !== 'string') {
+          errors.push(`questUpdates[${index}] description must be a string`);
+        }
+      });
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Validates a narrator-proposed delta against the current state and applies it.
+ * The delta is all-or-nothing: if any part is invalid the original state is returned with the reasons.
+ */
+export const applyStateDelta = (state: GameState, delta: unknown): { state: GameState; errors: string[] } => {
+  if (delta === undefined || delta === null) {
+    return { state, errors: [] };
+  }
+
+  const shapeErrors = validateDeltaShape(delta);
+  if (shapeErrors.length > 0) {
+    return { state, errors: shapeErrors };
+  }
+
+  const { itemsGained = [], itemsLost = [], hpChange = 0, location, questUpdates = [] } = delta as GameStateDelta;
+  const errors: string[] = [];
+
+  const inventory = [...state.inventory];
+  for (const item of itemsLost) {
+    const index = inventory.findIndex(held => sameName(held, item));
+    if (index === -1) {
+      errors.push(`cannot lose "${item}" because the player is not carrying it`);
+    } else {
+      inventory.splice(index, 1);
+    }
+  }
+  inventory.push(...itemsGained.map(item => item.trim()));
+
+  const quests = state.quests.map(quest => ({ ...quest }));
+  for (const update of questUpdates) {
+    const existing = quests.find(quest => sameName(quest.title, update.title));
+    if (existing) {
+      existing.status = update.status;
+      if (update.description) existing.description = update.description;
+    } else if (update.status === 'active') {
+      quests.push({ title: update.title.trim(), status: update.status, description: update.description });
+    } else {
+      errors.push(`cannot mark unknown quest "${update.title}" as ${update.status}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { state, errors };
+  }
+
+  return {
+    state: {
+      ...state,
+      hp: Math.max(0, Math.min(state.maxHp, state.hp + hpChange)),
+      inventory,
+      location: location?.trim() || state.location,
+      quests,
+    },
+    errors: [],
+  };
+};
+
+// Appends the authoritative game state to a player message so the narrator always works from it
+export const formatMessageWithState = (message: string, state: GameState): string =>
+  `${message}\n\n[GAME STATE]\n${JSON.stringify(state)}`;
@@ -1,262 +1,329 @@
+import type { GameAIResponse, ImageGenerationParams, ImageJob, ImageJobStatus, StoryMessage, StorytellerProvider, StreamHandlers, TurnUsage, UsageReport } from '../types';
+import { readNarratorTurn, createSceneStreamParser } from './narrator';
+import { readServerSentEvents } from './sse';
+import { createGameError, fetchOrThrow, readErrorResponse, ImageGenerationError } from './errors';
+import { addTurnUsage } from './usage';
 
-import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
-import type { GameAIResponse } from '../types';
+// All Gemini and Cloudflare calls go through our proxy server, which owns the API keys,
+// the chat history and the retry/fallback logic. This module only talks to the proxy.
+const PROXY_BASE_URL = process.env.PROXY_URL || "http://localhost:3001";
 
-// Ensure API_KEY is available in the environment.
-const API_KEY = process.env.API_KEY;
-const CLOUDFLARE_API_KEY = process.env.CLOUDFLARE_API_KEY;
+// The proxy forgot the session (it restarted or the session idled out) - it can be rebuilt from our copy of the history
+class SessionExpiredError extends Error {}
 
-if (!API_KEY) {
-  console.error("API_KEY for Google GenAI is not set in environment variables.");
-  // Potentially throw an error or handle this more gracefully depending on requirements
-  // For this example, we'll let it proceed and fail at API call if key is truly missing
-}
-
-if (!CLOUDFLARE_API_KEY) {
-  console.error("CLOUDFLARE_API_KEY is not set in environment variables.");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY! }); // Non-null assertion, assuming it's set
+const UNREACHABLE_MESSAGE = `Could not reach the proxy server at ${PROXY_BASE_URL}. Make sure it is running (cd proxy-server && npm start).`;
 
-const GEMINI_MODEL_NAME = "gemini-2.0-flash";
-const FALLBACK_MODEL_NAME = "gemini-1.5-flash"; // Fallback model if primary is overloaded
+const callProxy = (path: string, init?: RequestInit): Promise<Response> =>
+  fetchOrThrow(`${PROXY_BASE_URL}${path}`, init, UNREACHABLE_MESSAGE);
 
-const SYSTEM_INSTRUCTION = `You are a Dungeon Master for a dynamic text adventure game. Your goal is to create an engaging and evolving story based on the player's actions.
-For each turn, you must:
-1. Describe the current scene or the outcome of the player's action. The description should be immersive and engaging. Use vivid language.
-2. Provide a concise, descriptive prompt (max 15-20 words) suitable for an image generation AI to create a visual for the scene. The prompt should be literal and focus on visual elements, capturing the mood and key details.
-Your ENTIRE response for EACH turn MUST be a single JSON object with two keys: "sceneDescription" (string) and "imagePrompt" (string).
-Do NOT include any other text, greetings, or explanations outside of this JSON structure.
-Example response:
-{"sceneDescription": "You cautiously open the ancient wooden door. Dust motes dance in the single ray of light piercing the gloom of the chamber beyond. A faint, metallic scent hangs in the air. The air is cold and stale.", "imagePrompt": "Ancient wooden door opening into a dark, dusty chamber, single ray of light, fantasy art style, metallic scent visual cue, cold stale air"}
-
-When the game starts (first message is "Start the adventure."), generate the initial scene and image prompt according to these rules.`;
-
-export const createChatSession = (modelName: string = GEMINI_MODEL_NAME): Chat => {
-  return ai.chats.create({
-    model: modelName,
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTION,
-      responseMimeType: "application/json", // Request JSON output
-    },
+const startProxySession = async (systemInstruction: string, history: StoryMessage[], adventureId?: string): Promise<string> => {
+  const response = await callProxy(`/api/story/sessions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ systemInstruction, history, adventureId }),
   });
+  if (!response.ok) {
+    throw await readErrorResponse(response, "Failed to start a story session");
+  }
+  const data = await response.json();
+  return data.sessionId;
 };
 
-const parseGeminiResponse = (responseText: string): GameAIResponse | null => {
-  try {
-    let jsonStr = responseText.trim();
-    const fenceRegex = /^```(?:json)?\s*\n?(.*?)\n?\s*```$/s;
-    const match = jsonStr.match(fenceRegex);
-    if (match && match[1]) {
-      jsonStr = match[1].trim();
-    }
-    const parsed = JSON.parse(jsonStr);
-    if (parsed.sceneDescription && parsed.imagePrompt) {
-      return parsed as GameAIResponse;
-    }
-    console.warn("Parsed JSON does not match GameAIResponse structure:", parsed);
-    return null;
-  } catch (error) {
-    console.error("Failed to parse Gemini response JSON:", error, "Raw response:", responseText);
-    return null;
+const postMessage = async (sessionId: string, message: string, stream: boolean): Promise<Response> => {
+  const response = await callProxy(`/api/story/sessions/${sessionId}/messages`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, stream }),
+  });
+  if (response.status === 404) {
+    throw new SessionExpiredError("Story session expired");
+  }
+  if (!response.ok) {
+    throw await readErrorResponse(response, "The storyteller failed");
   }
+  return response;
 };
 
+// The raw narrator text of a turn, the model the proxy's failover picked to write it and what it cost
+interface ProxyTurn {
+  text: string;
+  model: string;
+  usage: TurnUsage;
+}
 
-// Utility function for exponential backoff delay
-const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
-
-// Retry configuration
-const RETRY_CONFIG = {
-  maxRetries: 3,
-  baseDelay: 1000, // 1 second
-  maxDelay: 8000,  // 8 seconds
-  backoffFactor: 2
+const sendMessageViaProxy = async (sessionId: string, message: string): Promise<ProxyTurn> => {
+  const response = await postMessage(sessionId, message, false);
+  return response.json();
 };
 
-// Simple circuit breaker to prevent overwhelming the service
-let circuitBreakerState = {
-  failures: 0,
-  lastFailureTime: 0,
-  isOpen: false,
-  openUntil: 0
+const streamMessageViaProxy = async (sessionId: string, message: string, handlers: StreamHandlers): Promise<ProxyTurn> => {
+  const response = await postMessage(sessionId, message, true);
+  let parseChunk = createSceneStreamParser(handlers);
+
+  for await (const { event, data } of readServerSentEvents(response)) {
+    const payload = JSON.parse(data);
+    switch (event) {
+      case "chunk":
+        parseChunk(payload.text);
+        break;
+      case "restart":
+        // The proxy is retrying after a partially streamed attempt failed
+        parseChunk = createSceneStreamParser(handlers);
+        handlers.onRestart?.();
+        break;
+      case "done":
+        return payload;
+      case "error":
+        throw createGameError(payload.status, payload.error, payload.code, payload.retryAfter);
+    }
+  }
+
+  throw createGameError(502, "The story stream ended unexpectedly.");
 };
 
-const CIRCUIT_BREAKER_CONFIG = {
-  failureThreshold: 5, // Open circuit after 5 consecutive failures
-  resetTimeout: 30000, // Reset after 30 seconds
-  halfOpenRetryTimeout: 10000 // Try again after 10 seconds when half-open
+// A one-off request on the story session's models, so it goes to whichever model the proxy has failed over to
+const completeInSession = async (sessionId: string, systemInstruction: string, prompt: string): Promise<ProxyTurn> => {
+  const response = await callProxy(`/api/story/sessions/${sessionId}/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ systemInstruction, prompt }),
+  });
+  if (response.status === 404) {
+    throw new SessionExpiredError("Story session expired");
+  }
+  if (!response.ok) {
+    throw await readErrorResponse(response, "The storyteller failed");
+  }
+  return response.json();
 };
 
-const checkCircuitBreaker = (): boolean => {
-  const now = Date.now();
-  
-  // If circuit is open, check if we should try again
-  if (circuitBreakerState.isOpen) {
-    if (now > circuitBreakerState.openUntil) {
-      circuitBreakerState.isOpen = false;
-      circuitBreakerState.failures = 0;
-      console.log('Circuit breaker reset - attempting to reconnect');
-      return true;
-    }
-    return false;
+const putLastReply = async (sessionId: string, text: string): Promise<void> => {
+  const response = await callProxy(`/api/story/sessions/${sessionId}/last-reply`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text }),
+  });
+  if (response.status === 404) {
+    throw new SessionExpiredError("Story session expired");
   }
-  
-  return true;
+  if (!response.ok) {
+    throw await readErrorResponse(response, "Could not replace the storyteller's last reply");
+  }
+};
+
+const endProxySession = (sessionId: string): void => {
+  fetch(`${PROXY_BASE_URL}/api/story/sessions/${sessionId}`, { method: "DELETE" }).catch(() => {}); // The proxy expires it anyway
 };
 
-const recordFailure = () => {
-  circuitBreakerState.failures++;
-  circuitBreakerState.lastFailureTime = Date.now();
-  
-  if (circuitBreakerState.failures >= CIRCUIT_BREAKER_CONFIG.failureThreshold) {
-    circuitBreakerState.isOpen = true;
-    circuitBreakerState.openUntil = Date.now() + CIRCUIT_BREAKER_CONFIG.resetTimeout;
-    console.log('Circuit breaker opened - too many failures. Will retry after', CIRCUIT_BREAKER_CONFIG.resetTimeout / 1000, 'seconds');
+export const createGeminiStoryteller = (): StorytellerProvider => ({
+  name: "Gemini",
+  createSession: (systemInstruction, initialHistory = [], adventureId) => {
+    // Our copy of the history backs saves and lets us rebuild the proxy session if it expires
+    const history: StoryMessage[] = [...initialHistory];
+    let sessionId: string | null = null;
+
+    // Sends on the proxy session, starting it first, or restoring it from our history when the proxy has forgotten it
+    const onSession = async (send: (sessionId: string) => Promise<ProxyTurn>): Promise<{ turn: ProxyTurn; sessionId: string }> => {
+      try {
+        const current = sessionId = sessionId ?? await startProxySession(systemInstruction, history, adventureId);
+        return { turn: await send(current), sessionId: current };
+      } catch (error) {
+        if (!(error instanceof SessionExpiredError)) throw error;
+        console.log("Story session expired on the proxy, restoring it from history...");
+        const restored = sessionId = await startProxySession(systemInstruction, history, adventureId);
+        return { turn: await send(restored), sessionId: restored };
+      }
+    };
+
+    const runTurn = async (message: string, send: (sessionId: string) => Promise<ProxyTurn>): Promise<GameAIResponse> => {
+      const { turn, sessionId: activeSessionId } = await onSession(send);
+
+      let repairUsage: TurnUsage | undefined;
+      let narrated: { text: string; response: GameAIResponse };
+      try {
+        narrated = await readNarratorTurn(turn.text, async (prompt) => {
+          const repair = await completeInSession(activeSessionId, systemInstruction, prompt);
+          repairUsage = repair.usage;
+          return repair.text;
+        });
+      } catch (error) {
+        // The proxy kept the message and its unreadable reply, which our history leaves out; a retry would send the
+        // message again after them, so the next turn rebuilds the session from our history instead
+        if (sessionId === activeSessionId) {
+          endProxySession(activeSessionId);
+          sessionId = null;
+        }
+        throw error;
+      }
+      const { text, response } = narrated;
+      history.push({ role: 'user', text: message }, { role: 'model', text });
+      if (text !== turn.text) {
+        await replaceProxyReply(text); // The proxy's history still holds the broken reply
+      }
+      return { ...response, model: turn.model, usage: addTurnUsage(turn.usage, repairUsage) };
+    };
+
+    // Keeps the proxy's history in step with ours without losing the session's model and circuit breakers
+    const replaceProxyReply = async (text: string): Promise<void> => {
+      if (!sessionId) return;
+      try {
+        await putLastReply(sessionId, text);
+      } catch (error) {
+        // An expired session is restored from our history anyway; otherwise rebuild it from ours next turn
+        if (!(error instanceof SessionExpiredError)) {
+          console.warn("Could not replace the last reply on the proxy, so the session will be rebuilt:", error);
+        }
+        sessionId = null;
+      }
+    };
+
+    const switchModel = async (): Promise<string> => {
+      if (!sessionId) {
+        throw createGameError(409, "The story has not reached the storyteller yet, so there is no model to switch from.");
+      }
+      const response = await callProxy(`/api/story/sessions/${sessionId}/model`, { method: "POST" });
+      if (!response.ok) {
+        throw await readErrorResponse(response, "Could not switch models");
+      }
+      return (await response.json()).model;
+    };
+
+    return {
+      sendMessage: (message) => runTurn(message, (id) => sendMessageViaProxy(id, message)),
+      streamMessage: (message, handlers = {}) => runTurn(message, (id) => streamMessageViaProxy(id, message, handlers)),
+      getHistory: () => [...history],
+      replaceLastReply: async (text) => {
+        history[history.length - 1] = { role: 'model', text };
+        await replaceProxyReply(text);
+      },
+      switchModel,
+      // On the story session, so the request is metered and budgeted with the adventure and uses the session's models
+      complete: async (instruction, prompt) => (await onSession((id) => completeInSession(id, instruction, prompt))).turn.text,
+    };
+  },
+});
+
+// The proxy's metered usage for today and recent days, with its budgets
+export const fetchUsageReport = async (): Promise<UsageReport> => {
+  const response = await callProxy(`/api/usage`);
+  if (!response.ok) {
+    throw await readErrorResponse(response, "Could not load the usage report");
   }
+  return response.json();
 };
 
-const recordSuccess = () => {
-  circuitBreakerState.failures = 0;
-  circuitBreakerState.isOpen = false;
+// The voices of the proxy's text-to-speech engine, or null when it has none and narration is left to the browser
+export const fetchSpeechVoices = async (): Promise<string[] | null> => {
+  const response = await callProxy(`/api/tts`);
+  if (!response.ok) {
+    throw await readErrorResponse(response, "Could not load the narration voices");
+  }
+  const { configured, voices } = await response.json();
+  return configured ? voices : null;
 };
 
-export const sendMessageToGemini = async (chat: Chat, message: string, useFallback: boolean = false): Promise<GameAIResponse | null> => {
-  // Check circuit breaker first
-  if (!checkCircuitBreaker()) {
-    // If circuit breaker is open and we haven't tried fallback yet, try with fallback model
-    if (!useFallback) {
-      console.log('Primary model circuit breaker is open, trying fallback model...');
-      const fallbackChat = createChatSession(FALLBACK_MODEL_NAME);
-      return sendMessageToGemini(fallbackChat, message, true);
-    }
-    throw new Error("Both primary and fallback AI services are temporarily unavailable due to repeated failures. Please wait a moment and try again.");
+/**
+ * Has the proxy's text-to-speech engine read the text aloud, resolving to the audio. Aborting the signal stops
+ * the synthesis; it then rejects with the AbortError rather than a GameError.
+ */
+export const requestSpeech = async (text: string, voice: string, speed: number, signal: AbortSignal): Promise<Blob> => {
+  const response = await fetch(`${PROXY_BASE_URL}/api/tts`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text, ...(voice && { voice }), speed }),
+    signal,
+  });
+  if (!response.ok) {
+    throw await readErrorResponse(response, "Could not narrate the scene");
   }
+  return response.blob();
+};
 
-  let lastError: Error | null = null;
+// Scene images are generated by a background queue in the proxy, so a slow or failing image never holds up the story
 
-  for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
-    try {
-      const response: GenerateContentResponse = await chat.sendMessage({ message });
-      const responseText = response.text;
-      if (!responseText) {
-        console.error("Gemini response text is empty.");
-        return null;
-      }
-      
-      // Success - record it and reset circuit breaker
-      recordSuccess();
-      return parseGeminiResponse(responseText);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      console.error(`Error sending message to Gemini (attempt ${attempt + 1}/${RETRY_CONFIG.maxRetries + 1}):`, error);
-      
-      if (error instanceof Error) {
-        // Handle permanent errors that shouldn't be retried
-        if (error.message.includes("API key not valid")) {
-          throw new Error("Invalid API Key. Please check your API_KEY environment variable.");
-        }
-        
-        // Check for rate limit / quota exceeded errors
-        if (error.message.includes("429") && error.message.toUpperCase().includes("RESOURCE_EXHAUSTED")) {
-          throw new Error("RateLimitError: API quota exceeded for text generation. Please check your plan/billing or try again later.");
-        }
+interface ImageJobState {
+  id: string;
+  status: ImageJobStatus;
+  position: number; // Place in the queue while queued
+  imageUrl: string | null;
+  error: string | null;
+}
 
-        // Check for retryable errors (503 Service Unavailable, 502 Bad Gateway, etc.)
-        const isRetryableError = 
-          error.message.includes("503") || // Service Unavailable (model overloaded)
-          error.message.includes("502") || // Bad Gateway
-          error.message.includes("500") || // Internal Server Error
-          error.message.includes("UNAVAILABLE") ||
-          error.message.includes("overloaded") ||
-          error.message.includes("temporarily unavailable");
-
-        // If it's not a retryable error, throw immediately
-        if (!isRetryableError) {
-          throw error;
-        }
+const startImageJob = async (params: ImageGenerationParams): Promise<ImageJobState> => {
+  const response = await callProxy(`/api/images/jobs`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    // An empty style falls back to the proxy's default, and a missing seed to a random one
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    throw await readErrorResponse(response, "Failed to queue the scene image");
+  }
+  return response.json();
+};
 
-        // For model overloaded errors, try fallback model after first failure
-        if (!useFallback && attempt === 0 && (
-          error.message.includes("503") || 
-          error.message.includes("UNAVAILABLE") || 
-          error.message.includes("overloaded")
-        )) {
-          console.log('Primary model appears overloaded, trying fallback model...');
-          try {
-            const fallbackChat = createChatSession(FALLBACK_MODEL_NAME);
-            return await sendMessageToGemini(fallbackChat, message, true);
-          } catch (fallbackError) {
-            console.log('Fallback model also failed, continuing with retry logic...');
-            // Continue with normal retry logic
-          }
-        }
-      }
+// A path on the proxy as a URL this client can load; absolute and data: URLs are left as they are
+export const resolveProxyUrl = (pathOrUrl: string): string => new URL(pathOrUrl, PROXY_BASE_URL).href;
 
-      // If we've exhausted all retries, record failure and throw
-      if (attempt === RETRY_CONFIG.maxRetries) {
-        recordFailure();
-        if (lastError.message.includes("503") || lastError.message.includes("UNAVAILABLE") || lastError.message.includes("overloaded")) {
-          throw new Error("The Gemini AI service is currently overloaded. Please try again in a few minutes. If the problem persists, consider switching to a different model or checking Google AI Studio for service status.");
-        }
-        throw lastError;
-      }
+// The reverse, for URLs handed to other players who may reach the proxy by another address than ours
+export const toProxyPath = (url: string): string => {
+  const proxy = new URL(PROXY_BASE_URL);
+  const parsed = new URL(url, proxy);
+  return parsed.origin === proxy.origin ? `${parsed.pathname}${parsed.search}` : url;
+};
 
-      // Calculate delay with exponential backoff and jitter
-      const baseDelay = Math.min(
-        RETRY_CONFIG.baseDelay * Math.pow(RETRY_CONFIG.backoffFactor, attempt),
-        RETRY_CONFIG.maxDelay
-      );
-      const jitter = Math.random() * 0.3 * baseDelay; // Add up to 30% jitter
-      const delayMs = baseDelay + jitter;
+// Follows the job's server-sent status events; resolves to null if the job was cancelled
+const waitForImageJob = async (jobId: string, onStatus?: (status: ImageJobStatus, position: number) => void): Promise<string | null> => {
+  const response = await callProxy(`/api/images/jobs/${jobId}/events`);
+  if (!response.ok) {
+    throw await readErrorResponse(response, "Lost track of the scene image");
+  }
 
-      console.log(`Retrying in ${Math.round(delayMs)}ms... (attempt ${attempt + 1}/${RETRY_CONFIG.maxRetries + 1})`);
-      await delay(delayMs);
+  for await (const { data } of readServerSentEvents(response)) {
+    const job: ImageJobState = JSON.parse(data);
+    onStatus?.(job.status, job.position);
+    switch (job.status) {
+      case "succeeded":
+        // The proxy serves images from its cache under its own paths
+        return job.imageUrl && resolveProxyUrl(job.imageUrl);
+      case "failed":
+        throw new ImageGenerationError(job.error || "Image generation failed.");
+      case "cancelled":
+        return null;
     }
   }
 
-  // This should never be reached, but just in case
-  throw lastError || new Error("Unknown error occurred during retry attempts");
+  throw new ImageGenerationError("The image status stream ended unexpectedly.");
 };
 
-export const generateImageWithCloudflare = async (prompt: string): Promise<string | null> => {
-  try {
-    if (!CLOUDFLARE_API_KEY) {
-      throw new Error("Cloudflare API key is not configured");
-    }
+const cancelImageJob = (jobId: string): void => {
+  fetch(`${PROXY_BASE_URL}/api/images/jobs/${jobId}`, { method: "DELETE" })
+    .catch(error => console.warn("Could not cancel image job:", error));
+};
 
-    // Use local proxy server to avoid CORS issues
-    const endpoint = "http://localhost:3001/api/generate-image";
-    
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        prompt: prompt,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error("Cloudflare Proxy API error:", response.status, errorData);
-      
-      if (response.status === 429) {
-        throw new Error("RateLimitError: Cloudflare API quota exceeded. Please check your plan/billing or try again later.");
-      }
-      if (response.status === 401) {
-        throw new Error("Invalid Cloudflare API Key. Please check your CLOUDFLARE_API_KEY environment variable.");
-      }
-      
-      throw new Error(`Cloudflare API error: ${response.status} ${response.statusText}. ${errorData.error || ''}`);
+export const requestImage = (params: ImageGenerationParams, onStatus?: (status: ImageJobStatus, position: number) => void): ImageJob<string | null> => {
+  let jobId: string | null = null;
+  let cancelled = false;
+
+  const result = (async () => {
+    const job = await startImageJob(params);
+    jobId = job.id;
+    // Cancelled while the job was still being queued
+    if (cancelled) {
+      cancelImageJob(job.id);
+      return null;
     }
+    return waitForImageJob(job.id, onStatus);
+  })().catch(error => {
+    // However it failed, a missing picture never stops the story
+    throw error instanceof ImageGenerationError ? error : new ImageGenerationError(error instanceof Error ? error.message : String(error));
+  });
 
-    const data = await response.json();
-    return data.imageUrl;
-
-  } catch (error) {
-    console.error("Error generating image with Cloudflare:", error);
-    throw error;
-  }
+  return {
+    result,
+    cancel: () => {
+      cancelled = true;
+      if (jobId) cancelImageJob(jobId);
+    },
+  };
 };
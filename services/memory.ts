@@ -0,0 +1,90 @@
+import type { CodexEntry, CodexUpdate, StoryMemory, StoryMessage, StorytellerSession } from '../types';
+import { parseNarratorResponse } from './narrator';
+
+// Long-game memory: older turns are compacted into a rolling summary, and named things are kept in a codex
+
+const MEMORY_CONFIG = {
+  compactAfterTurns: 12, // Compact once the narrator's history holds this many turns
+  keepRecentTurns: 6,    // Turns left verbatim in the history after compacting
+  maxSummaryWords: 250,
+};
+
+const SUMMARY_INSTRUCTION = `You maintain the memory of a long-running text adventure. You receive the current summary of the story and a batch of older turns that are about to be forgotten.
+Write an updated summary that merges both: the main plot points in order, promises and threats still open, how the player treated important characters, and anything the story may need later. Write in the past tense and the second person ("you"), in at most ${MEMORY_CONFIG.maxSummaryWords} words.
+Respond with a single JSON object with one key: "summary" (string). Do NOT include any other text.`;
+
+const GAME_STATE_MARKER = '\n\n[GAME STATE]';
+
+export const createEmptyMemory = (): StoryMemory => ({ summary: '', codex: [] });
+
+const sameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Merges the narrator's codex updates; entries the player corrected by hand keep the player's version
+export const applyCodexUpdates = (codex: CodexEntry[], updates: CodexUpdate[] = []): CodexEntry[] => {
+  const next = [...codex];
+  for (const update of updates) {
+    const index = next.findIndex(entry => sameName(entry.name, update.name));
+    if (index === -1) {
+      next.push(update);
+    } else if (!next[index].editedByPlayer) {
+      next[index] = { ...next[index], category: update.category, description: update.description || next[index].description };
+    }
+  }
+  return next;
+};
+
+// Player corrections apply on every branch, so they are carried over when the game rewinds to an older memory
+export const keepPlayerEdits = (memory: StoryMemory, codex: CodexEntry[]): StoryMemory => {
+  const edits = codex.filter(entry => entry.editedByPlayer);
+  return {
+    ...memory,
+    codex: [
+      ...memory.codex.filter(entry => !edits.some(edit => sameName(edit.name, entry.name))),
+      ...edits,
+    ],
+  };
+};
+
+export const needsCompaction = (history: StoryMessage[]): boolean =>
+  history.length > MEMORY_CONFIG.compactAfterTurns * 2;
+
+// Renders old turns as plain prose for the summariser, without the game state blocks or the JSON wrapping
+const describeTurns = (history: StoryMessage[]): string =>
+  history.map(entry => {
+    if (entry.role === 'user') {
+      return `Player: ${entry.text.split(GAME_STATE_MARKER)[0]}`;
+    }
+    return `Narrator: ${parseNarratorResponse(entry.text)?.sceneDescription ?? entry.text}`;
+  }).join('\n\n');
+
+/**
+ * Folds all but the most recent turns of the history into the summary.
+ * Resolves to the new memory and the shortened history the narrator session should be rebuilt with.
+ */
+export const compactMemory = async (
+  session: StorytellerSession,
+  memory: StoryMemory,
+  history: StoryMessage[],
+): Promise<{ memory: StoryMemory; history: StoryMessage[] }> => {
+  // Each turn is a user message followed by the narrator's reply, so cutting at an even index keeps turns whole
+  const cut = history.length - MEMORY_CONFIG.keepRecentTurns * 2;
+  const olderTurns = history.slice(0, cut);
+
+  const prompt = `Current summary:\n${memory.summary || '(none yet - this is the start of the story)'}\n\nOlder turns to fold in:\n${describeTurns(olderTurns)}`;
+  const responseText = await session.complete(SUMMARY_INSTRUCTION, prompt);
+
+  let summary: unknown;
+  try {
+    summary = JSON.parse(responseText.trim().replace(/^```(?:json)?\s*|\s*```$/g, '')).summary;
+  } catch {
+    summary = undefined;
+  }
+  if (typeof summary !== 'string' || !summary.trim()) {
+    throw new Error("The storyteller returned an unusable story summary.");
+  }
+
+  return {
+    memory: { ...memory, summary: summary.trim() },
+    history: history.slice(cut),
+  };
+};
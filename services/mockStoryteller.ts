@@ -0,0 +1,143 @@
+import type { GameAIResponse, Skill, StoryMessage, StorytellerProvider } from '../types';
+import { parseNarratorResponse, createSceneStreamParser } from './narrator';
+import { MalformedResponseError } from './errors';
+import { MODERATOR_INSTRUCTION } from './moderation';
+
+// Deterministic offline narrator for development and demos: the same actions always produce the same story
+
+const OPENING_SCENE: GameAIResponse = {
+  sceneDescription: "You wake on the cold flagstones of a ruined chapel. Moonlight spills through a shattered rose window, and somewhere below you water drips into a deep well. Beside you lies a battered brass lantern, still warm.",
+  imagePrompt: "Ruined stone chapel at night, moonlight through shattered rose window, brass lantern on flagstones",
+  stateDelta: { location: "Ruined Chapel", itemsGained: ["Brass Lantern"] },
+  suggestedActions: ["Light the lantern", "Peer down the well", "Search the altar"],
+  codexUpdates: [{ name: "Ruined Chapel", category: "place", description: "A moonlit chapel with a shattered rose window and a deep well below." }],
+};
+
+const SCRIPTED_SCENES: GameAIResponse[] = [
+  {
+    sceneDescription: "Shadows recoil as you press on. A narrow stair spirals down into the crypt, its walls carved with the names of forgotten knights. One name has been freshly scratched out.",
+    imagePrompt: "Narrow spiral stone stair descending into crypt, carved names on walls, lantern light",
+    stateDelta: { location: "Crypt Stairs", questUpdates: [{ title: "The Erased Knight", status: "active", description: "Learn whose name was scratched from the crypt wall." }] },
+    suggestedActions: ["Descend the stairs", "Study the carved names", "Call out into the dark"],
+  },
+  {
+    sceneDescription: "A skittering sound, then a sharp sting across your forearm - a crypt rat the size of a hound bolts past and vanishes into a crack in the wall. Beyond it, an iron door stands ajar.",
+    imagePrompt: "Giant rat fleeing into cracked crypt wall, iron door ajar, flickering lantern light",
+    stateDelta: { hpChange: -2, location: "Crypt Antechamber" },
+    suggestedActions: ["Push open the iron door", "Bandage your arm", "Follow the rat"],
+  },
+  {
+    sceneDescription: "Behind the iron door a knight's effigy rests on a stone tomb. Clutched in its marble hands is a real silver key, bright as if polished yesterday.",
+    imagePrompt: "Marble knight effigy on stone tomb holding real silver key, dim crypt chamber",
+    stateDelta: { location: "Knight's Tomb", itemsGained: ["Silver Key"] },
+    suggestedActions: ["Read the tomb inscription", "Try the key on the tomb", "Return to the chapel"],
+    codexUpdates: [{ name: "Silver Key", category: "item", description: "A bright silver key taken from the hands of a marble knight's effigy." }],
+  },
+  {
+    sceneDescription: "The inscription reads: 'Here lies Ser Aldric, who kept the door.' The scratched-out name was his. A cold draft rises from beneath the tomb, carrying the faint sound of bells.",
+    imagePrompt: "Close-up of worn tomb inscription, cold mist rising from beneath stone tomb",
+    stateDelta: { questUpdates: [{ title: "The Erased Knight", status: "completed" }] },
+    suggestedActions: ["Search beneath the tomb", "Listen to the bells", "Rest for a moment"],
+    codexUpdates: [{ name: "Ser Aldric", category: "npc", description: "A knight 'who kept the door', buried in the crypt; his name was scratched from its wall." }],
+  },
+];
+
+// Risky actions get a skill check, and the scene after it follows the rolled outcome
+const RISKY_ACTIONS: { pattern: RegExp; skill: Skill }[] = [
+  { pattern: /\b(climb|jump|leap|sneak|dodge)\b/i, skill: 'agility' },
+  { pattern: /\b(fight|attack|force|break|lift)\b/i, skill: 'might' },
+  { pattern: /\b(persuade|convince|lie|bluff|charm)\b/i, skill: 'presence' },
+];
+
+const CHECK_SUCCEEDED: GameAIResponse = {
+  sceneDescription: "It works. You come through without a scratch, and the way ahead lies open.",
+  imagePrompt: "The hero standing triumphant in a lantern-lit crypt passage",
+  stateDelta: {},
+  suggestedActions: ["Press on", "Catch your breath", "Look back the way you came"],
+};
+
+const CHECK_FAILED: GameAIResponse = {
+  sceneDescription: "It goes wrong. You slip on the damp stone and crack your knee hard enough to see stars.",
+  imagePrompt: "The hero fallen on damp crypt flagstones, lantern rolling away",
+  stateDelta: { hpChange: -2 },
+  suggestedActions: ["Try again", "Find another way", "Tend to your knee"],
+};
+
+const MOCK_MODEL_NAME = "scripted-mock";
+const MOCK_SUMMARY = "You woke in a ruined chapel and followed a stair down into the crypt, where a giant rat wounded you and a knight's tomb gave up a silver key.";
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// The player's action is the first line; the rest is the appended game state
+const extractAction = (message: string): string => message.split('\n')[0].trim();
+
+const scriptTurn = (message: string, turnIndex: number): GameAIResponse => {
+  if (turnIndex === 0) return OPENING_SCENE;
+  if (message.startsWith('[CHECK RESULT]')) {
+    return /Outcome: (Critical success|Success|Partial success)\./.test(message) ? CHECK_SUCCEEDED : CHECK_FAILED;
+  }
+
+  const action = extractAction(message).replace(/[.!?]+$/, '');
+  const attempt = `${action.charAt(0).toLowerCase()}${action.slice(1)}`;
+  const risky = RISKY_ACTIONS.find(({ pattern }) => pattern.test(action));
+  if (risky) {
+    return {
+      sceneDescription: `You ${attempt}, and for a heartbeat everything hangs in the balance.`,
+      imagePrompt: "The hero mid-action in a dim crypt, tense moment, flickering lantern light",
+      stateDelta: {},
+      suggestedActions: [],
+      codexUpdates: [],
+      check: { skill: risky.skill, difficulty: 'normal', reason: attempt },
+    };
+  }
+
+  const scene = SCRIPTED_SCENES[(turnIndex - 1) % SCRIPTED_SCENES.length];
+  return { ...scene, sceneDescription: `You ${attempt}. ${scene.sceneDescription}` };
+};
+
+// The script always writes well-formed turns, so there is nothing to repair
+const readScriptedTurn = (responseText: string): GameAIResponse => {
+  const response = parseNarratorResponse(responseText);
+  if (!response) {
+    throw new MalformedResponseError("The mock narrator's script produced an unreadable turn.");
+  }
+  return { ...response, model: MOCK_MODEL_NAME };
+};
+
+export const createMockStoryteller = (): StorytellerProvider => ({
+  name: "Scripted mock narrator",
+  // The script ignores the campaign's system instruction - it always tells the same story
+  createSession: (_systemInstruction, initialHistory = []) => {
+    const history: StoryMessage[] = [...initialHistory];
+
+    const nextResponseText = (message: string): string => {
+      const turnIndex = history.filter(entry => entry.role === 'user').length;
+      const responseText = JSON.stringify(scriptTurn(message, turnIndex));
+      history.push({ role: 'user', text: message }, { role: 'model', text: responseText });
+      return responseText;
+    };
+
+    return {
+      sendMessage: async (message) => readScriptedTurn(nextResponseText(message)),
+      streamMessage: async (message, handlers = {}) => {
+        const responseText = nextResponseText(message);
+        const parseChunk = createSceneStreamParser(handlers);
+        for (let offset = 0; offset < responseText.length; offset += STREAM_CHUNK_SIZE) {
+          await delay(STREAM_CHUNK_DELAY_MS);
+          parseChunk(responseText.slice(offset, offset + STREAM_CHUNK_SIZE));
+        }
+        return readScriptedTurn(responseText);
+      },
+      getHistory: () => [...history],
+      replaceLastReply: async (text) => {
+        history[history.length - 1] = { role: 'model', text };
+      },
+      // The one-off requests are story summaries and moderation checks, which the script's own story always passes
+      complete: async (systemInstruction) => systemInstruction === MODERATOR_INSTRUCTION
+        ? JSON.stringify({ allowed: true, categories: [], reason: "Fits the rating." })
+        : JSON.stringify({ summary: MOCK_SUMMARY }),
+    };
+  },
+});
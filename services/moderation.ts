@@ -0,0 +1,205 @@
+import type { ContentRating, GameAIResponse, ModeratedContent, ModerationCategory, ModerationDecision, StorytellerSession } from '../types';
+import { CONTENT_RATING_GUIDANCE } from './narrator';
+import { ContentBlockedError } from './errors';
+
+// Keeps player actions, narration and image prompts within the campaign's content rating. Local keyword rules
+// always run; the storyteller can also be asked to judge what the rules let through. The narrator's own
+// instructions already carry the rating, so this is the safety net for what slips past them.
+
+// Whole words only, so "Sussex" or "grapeshot" don't trip anything; ambiguous words ("hell", "naked blade") are left out
+const RULES: Record<ModerationCategory, RegExp> = {
+  profanity: /\b(damn(ed|it)?|crap|bastards?|piss(ed)?)\b/i,
+  'strong-profanity': /\b(fuck\w*|motherfuck\w*|shit(s|ty|ting)?|cunts?|bitch(es)?|assholes?|dickheads?)\b/i,
+  'graphic-violence': /\b(gore|gory|entrails|disembowel\w*|eviscerat\w*|dismember\w*|decapitat\w*|mutilat\w*|flay(s|ed|ing)?)\b/i,
+  sexual: /\b(sex|sexy|sexual(ly)?|nude|nudity|topless|erotic\w*|seduc\w*|aroused|lustful)\b/i,
+  'explicit-sexual': /\b(porn\w*|intercourse|orgasm\w*|genitals?|penis|vagina|masturbat\w*|rape[ds]?|raping)\b/i,
+  'self-harm': /\b(suicid\w*|self[- ]harm\w*|kill (myself|yourself|himself|herself|themselves)|slit (my|your|his|her|their) wrists?)\b/i,
+};
+
+// What each rating rules out; everything else is left to the narrator's judgement
+const BLOCKED_CATEGORIES: Record<ContentRating, ModerationCategory[]> = {
+  family: ['profanity', 'strong-profanity', 'graphic-violence', 'sexual', 'explicit-sexual', 'self-harm'],
+  teen: ['strong-profanity', 'graphic-violence', 'sexual', 'explicit-sexual', 'self-harm'],
+  mature: ['explicit-sexual'],
+};
+
+const CATEGORY_LABELS: Record<ModerationCategory, string> = {
+  profanity: 'bad language',
+  'strong-profanity': 'strong language',
+  'graphic-violence': 'graphic violence',
+  sexual: 'sexual content',
+  'explicit-sexual': 'explicit sexual content',
+  'self-harm': 'self-harm',
+};
+
+const MODERATION_CATEGORIES = Object.keys(RULES) as ModerationCategory[];
+
+// The rating's blocked categories that the text matches
+export const checkWithRules = (text: string, rating: ContentRating): ModerationCategory[] =>
+  BLOCKED_CATEGORIES[rating].filter(category => RULES[category].test(text));
+
+export const describeCategories = (categories: ModerationCategory[]): string =>
+  categories.map(category => CATEGORY_LABELS[category]).join(', ') || 'content';
+
+export const MODERATOR_INSTRUCTION = `You are the content moderator of a text adventure game. You are given a content rating and a piece of text from the game, and decide whether the text fits the rating.
+Respond with a single JSON object: {"allowed": boolean, "categories": array of strings from ${MODERATION_CATEGORIES.map(category => `"${category}"`).join(', ')}, "reason": string (max 15 words)}. Do NOT include any other text.`;
+
+const REWRITER_INSTRUCTION = `You are the editor of a text adventure game. You rewrite a turn of the story so that it fits the game's content rating, keeping what happens and changing only how it is told.
+Respond with a single JSON object: {"sceneDescription": string, "imagePrompt": string (max 15-20 words, literal and visual), "suggestedActions": array of 2-4 short commands}. Do NOT include any other text.`;
+
+// A model reply is JSON, sometimes wrapped in a code fence
+const parseModelJson = (responseText: string): Record<string, unknown> | null => {
+  try {
+    const parsed = JSON.parse(responseText.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    return typeof parsed === 'object' && parsed !== null ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const logDecision = (decision: ModerationDecision): ModerationDecision => {
+  const categories = decision.categories.length > 0 ? ` (${decision.categories.join(', ')})` : '';
+  const log = decision.verdict === 'allowed' ? console.debug : console.info;
+  log(`Moderation: ${decision.content} ${decision.verdict} by ${decision.source} for a ${decision.rating} story${categories}${decision.reason ? ` - ${decision.reason}` : ''}`);
+  return decision;
+};
+
+const decide = (content: ModeratedContent, rating: ContentRating, verdict: ModerationDecision['verdict'], source: ModerationDecision['source'], categories: ModerationCategory[], reason?: string): ModerationDecision =>
+  logDecision({ content, rating, verdict, source, categories, reason, at: Date.now() });
+
+/**
+ * Asks the storyteller whether the text fits the rating. A check that fails or can't be read lets the text
+ * through - the rules have already passed it, and a moderation outage shouldn't stop the game.
+ */
+const checkWithModel = async (session: StorytellerSession, text: string, rating: ContentRating): Promise<{ categories: ModerationCategory[]; reason?: string } | null> => {
+  try {
+    const responseText = await session.complete(MODERATOR_INSTRUCTION, `Content rating: ${rating}. ${CONTENT_RATING_GUIDANCE[rating]}\n\nText:\n${text}`);
+    const verdict = parseModelJson(responseText);
+    if (!verdict || typeof verdict.allowed !== 'boolean') {
+      console.warn("The moderation check's reply could not be read, so the text was allowed:", responseText);
+      return null;
+    }
+    if (verdict.allowed) return null;
+    const categories = Array.isArray(verdict.categories)
+      ? verdict.categories.filter((category): category is ModerationCategory => MODERATION_CATEGORIES.includes(category))
+      : [];
+    return { categories, reason: typeof verdict.reason === 'string' ? verdict.reason : undefined };
+  } catch (error) {
+    console.warn("The moderation check failed, so the text was allowed:", error);
+    return null;
+  }
+};
+
+// Rules first, then the model when enabled; resolves to the decision, blocked or allowed
+const moderateText = async (content: ModeratedContent, text: string, rating: ContentRating, model?: StorytellerSession): Promise<ModerationDecision> => {
+  const matched = checkWithRules(text, rating);
+  if (matched.length > 0) return decide(content, rating, 'blocked', 'rules', matched);
+  if (model) {
+    const flagged = await checkWithModel(model, text, rating);
+    if (flagged) return decide(content, rating, 'blocked', 'model', flagged.categories, flagged.reason);
+  }
+  return decide(content, rating, 'allowed', model ? 'model' : 'rules', []);
+};
+
+/**
+ * Checks what the player wrote - an action, or the prompt for a new picture - before it is used. Throws
+ * ContentBlockedError for text outside the rating: the player is asked for something else rather than the
+ * narrator being asked to play along.
+ */
+export const moderatePlayerInput = async (content: 'action' | 'image-prompt', text: string, rating: ContentRating, model?: StorytellerSession): Promise<ModerationDecision> => {
+  const decision = await moderateText(content, text, rating, model);
+  if (decision.verdict === 'blocked') {
+    const what = content === 'action' ? 'That action' : 'That picture prompt';
+    throw new ContentBlockedError(`${what} includes ${describeCategories(decision.categories)}, which a ${rating} story leaves out. Try something else.`, decision);
+  }
+  return decision;
+};
+
+// Stands in for artwork whose prompt could not be used
+export const SAFE_IMAGE_PROMPT = "Atmospheric establishing shot of the current location, quiet and empty, soft light";
+
+/**
+ * Checks an image prompt with the rules - it is checked as it streams in, too early and too often for the model,
+ * which judges it with the rest of the finished turn. A prompt outside the rating is replaced with a safe, generic one.
+ */
+export const moderateImagePrompt = (prompt: string, rating: ContentRating): { prompt: string; decision?: ModerationDecision } => {
+  const matched = checkWithRules(prompt, rating);
+  if (matched.length === 0) return { prompt };
+  return { prompt: SAFE_IMAGE_PROMPT, decision: decide('image-prompt', rating, 'replaced', 'rules', matched) };
+};
+
+// Everything a turn shows the player, in words or as the picture's prompt
+const describeTurnText = (response: GameAIResponse): string => [
+  response.sceneDescription,
+  response.imagePrompt,
+  ...(response.suggestedActions ?? []),
+  ...(response.codexUpdates ?? []).map(update => `${update.name}: ${update.description}`),
+  response.check?.reason,
+].filter(Boolean).join('\n');
+
+// Keeps what happened - the state changes and any skill check - and draws a veil over how it was told
+const veilTurn = (response: GameAIResponse): GameAIResponse => ({
+  ...response,
+  sceneDescription: "The narrator draws a veil over what happens next. When the story picks up again, the moment has passed.",
+  imagePrompt: SAFE_IMAGE_PROMPT,
+  suggestedActions: [],
+  codexUpdates: [],
+  check: response.check && { ...response.check, reason: 'succeed' },
+});
+
+const REWRITE_PROMPT = (rating: ContentRating) =>
+  `Content rating: ${rating}. ${CONTENT_RATING_GUIDANCE[rating]}\nThis turn breaks the rating. Rewrite it to fit:\n`;
+
+// Asks the storyteller to retell a blocked turn; null when the rewrite is unusable or still breaks the rating
+const rewriteTurn = async (session: StorytellerSession, response: GameAIResponse, rating: ContentRating): Promise<GameAIResponse | null> => {
+  try {
+    const original = { sceneDescription: response.sceneDescription, imagePrompt: response.imagePrompt, suggestedActions: response.suggestedActions };
+    const rewrite = parseModelJson(await session.complete(REWRITER_INSTRUCTION, `${REWRITE_PROMPT(rating)}${JSON.stringify(original)}`));
+    if (!rewrite || typeof rewrite.sceneDescription !== 'string' || !rewrite.sceneDescription.trim()) return null;
+    const rewritten: GameAIResponse = {
+      ...response,
+      sceneDescription: rewrite.sceneDescription.trim(),
+      imagePrompt: typeof rewrite.imagePrompt === 'string' && rewrite.imagePrompt.trim() ? rewrite.imagePrompt.trim() : SAFE_IMAGE_PROMPT,
+      suggestedActions: Array.isArray(rewrite.suggestedActions) ? rewrite.suggestedActions.filter((action): action is string => typeof action === 'string').slice(0, 4) : [],
+      codexUpdates: [], // Written alongside the blocked telling, so they are dropped rather than trusted
+    };
+    return checkWithRules(describeTurnText(rewritten), rating).length === 0 ? rewritten : null;
+  } catch (error) {
+    console.warn("Could not rewrite the blocked turn:", error);
+    return null;
+  }
+};
+
+/**
+ * Checks a narrated turn - its scene, suggestions, codex updates and image prompt - against the rating. An image
+ * prompt the rules catch is replaced first; the model, when enabled, then judges the rest together with the prompt.
+ * A blocked turn is sent back to the storyteller for a rewrite, or veiled when that fails. Every check, allowed
+ * ones included, is recorded on the returned turn.
+ */
+export const moderateTurn = async (response: GameAIResponse, rating: ContentRating, session: StorytellerSession, useModel: boolean): Promise<GameAIResponse> => {
+  const image = moderateImagePrompt(response.imagePrompt, rating);
+  const decisions: ModerationDecision[] = image.decision ? [image.decision] : [];
+  let moderated = image.decision ? { ...response, imagePrompt: image.prompt } : response;
+
+  const scene = await moderateText('scene', describeTurnText(moderated), rating, useModel ? session : undefined);
+  if (scene.verdict === 'blocked') {
+    const rewritten = await rewriteTurn(session, moderated, rating);
+    moderated = rewritten ?? veilTurn(moderated);
+    decisions.push(decide('scene', rating, rewritten ? 'rewritten' : 'replaced', scene.source, scene.categories, scene.reason));
+  } else {
+    decisions.push(scene);
+  }
+
+  return { ...moderated, moderation: decisions };
+};
+
+// Whether any of the checks changed what the storyteller wrote
+export const changedByModeration = (decisions: ModerationDecision[] = []): boolean =>
+  decisions.some(decision => decision.verdict === 'rewritten' || decision.verdict === 'replaced');
+
+// For the notice under a moderated turn; empty when every check let the turn through
+export const describeModeration = (decisions: ModerationDecision[] = []): string => decisions.filter(decision => decision.verdict === 'rewritten' || decision.verdict === 'replaced').map(decision => {
+  const what = decision.content === 'image-prompt' ? "The scene's picture" : 'This scene';
+  const how = decision.verdict === 'rewritten' ? 'was retold' : 'was replaced';
+  return `${what} ${how} to keep ${describeCategories(decision.categories)} out of a ${decision.rating} story.`;
+}).join(' ');
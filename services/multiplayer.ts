@@ -0,0 +1,186 @@
+import type { RoomState, RoundMode, SharedStory } from '../types';
+import { resolveProxyUrl, toProxyPath } from './geminiService';
+
+// Shared adventures run through a WebSocket room on the proxy. Every player sends their actions to the room,
+// which combines each round into one action; the host's game narrates it and shares the story back.
+const ROOMS_URL = `${(process.env.PROXY_URL || "http://localhost:3001").replace(/^http/, "ws")}/api/rooms`;
+
+const CREDENTIALS_KEY = "simulated-souls:room";
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000]; // The last delay repeats until the room answers
+
+export const ROUND_MODE_LABELS: Record<RoundMode, string> = {
+  simultaneous: 'Simultaneous - everyone acts, then the round closes',
+  turns: 'Turn order - one player acts at a time',
+};
+
+interface RoomCredentials {
+  code: string;
+  playerId: string;
+  token: string;
+}
+
+export interface RoomMembership extends RoomCredentials {
+  isHost: boolean;
+}
+
+export type RoomEntry =
+  | { type: 'create'; name: string; mode: RoundMode; roundSeconds: number }
+  | { type: 'join'; code: string; name: string }
+  | ({ type: 'rejoin' } & RoomCredentials);
+
+type RoomMessage =
+  | ({ type: 'joined' } & RoomMembership)
+  | { type: 'room'; room: RoomState }
+  | { type: 'story'; story: SharedStory }
+  | { type: 'round'; number: number; action: string }
+  | { type: 'notice'; message: string }
+  | { type: 'error'; error: string }
+  | { type: 'closed'; reason: string };
+
+export interface RoomHandlers {
+  onJoined: (membership: RoomMembership) => void;
+  onRoom: (room: RoomState) => void;
+  onStory: (story: SharedStory) => void;
+  onRound: (action: string) => void;                 // Host only: a closed round for the game to narrate
+  onNotice: (message: string) => void;
+  onError: (error: string) => void;                  // One message was rejected; the player is still in the room
+  onConnectionChange: (connected: boolean) => void;  // Dropped connections are retried automatically
+  onClosed: (reason: string) => void;                // The player is out of the room for good
+}
+
+export interface RoomConnection {
+  sendAction: (text: string) => void;
+  shareStory: (story: SharedStory) => void;
+  finishRound: (ok: boolean, notice?: string) => void; // notice: why a failed round has to be played again
+  leave: () => void;
+  close: () => void; // Disconnects without leaving, so the room can be rejoined
+}
+
+// A guest who reloads the page picks up where they left off; a host's game does not survive a reload anyway
+export const loadRoomCredentials = (): RoomCredentials | null => {
+  try {
+    const stored = sessionStorage.getItem(CREDENTIALS_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveRoomCredentials = (credentials: RoomCredentials | null): void => {
+  try {
+    if (credentials) {
+      sessionStorage.setItem(CREDENTIALS_KEY, JSON.stringify(credentials));
+    } else {
+      sessionStorage.removeItem(CREDENTIALS_KEY);
+    }
+  } catch (error) {
+    console.warn("Could not remember the shared adventure:", error);
+  }
+};
+
+/**
+ * Creates, joins or rejoins a room. Once in, a dropped connection is retried with the credentials the room
+ * handed out, and the room answers a rejoin with its current state and story.
+ */
+export const connectToRoom = (entry: RoomEntry, handlers: RoomHandlers): RoomConnection => {
+  let credentials: RoomCredentials | null = entry.type === 'rejoin' ? entry : null;
+  let socket: WebSocket | null = null;
+  let ended = false;
+  let attempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const stop = () => {
+    ended = true;
+    clearTimeout(reconnectTimer);
+    socket?.close();
+  };
+
+  const end = (reason: string) => {
+    stop();
+    saveRoomCredentials(null);
+    handlers.onClosed(reason);
+  };
+
+  const open = () => {
+    const current = new WebSocket(ROOMS_URL);
+    let joined = false;
+    socket = current;
+
+    current.onopen = () => {
+      current.send(JSON.stringify(credentials ? { type: 'rejoin', ...credentials } : entry));
+    };
+
+    current.onmessage = (event) => {
+      if (ended || socket !== current) return;
+      const message: RoomMessage = JSON.parse(event.data);
+      switch (message.type) {
+        case 'joined':
+          joined = true;
+          attempts = 0;
+          credentials = { code: message.code, playerId: message.playerId, token: message.token };
+          if (!message.isHost) saveRoomCredentials(credentials);
+          handlers.onConnectionChange(true);
+          handlers.onJoined(message);
+          break;
+        case 'room':
+          handlers.onRoom(message.room);
+          break;
+        case 'story':
+          handlers.onStory({ ...message.story, imageUrl: message.story.imageUrl && resolveProxyUrl(message.story.imageUrl) });
+          break;
+        case 'round':
+          handlers.onRound(message.action);
+          break;
+        case 'notice':
+          handlers.onNotice(message.message);
+          break;
+        case 'error':
+          // Being turned away at the door ends the attempt; anything later only rejected that one message
+          if (joined) {
+            handlers.onError(message.error);
+          } else {
+            end(message.error);
+          }
+          break;
+        case 'closed':
+          end(message.reason);
+          break;
+      }
+    };
+
+    current.onclose = (event) => {
+      if (ended || socket !== current) return;
+      handlers.onConnectionChange(false);
+      // Close codes from 4000 up mean the room does not want this connection back
+      if (!credentials || event.code >= 4000) {
+        end(event.reason || "Could not reach the shared adventure. Is the proxy server running?");
+        return;
+      }
+      reconnectTimer = setTimeout(open, RECONNECT_DELAYS_MS[Math.min(attempts, RECONNECT_DELAYS_MS.length - 1)]);
+      attempts++;
+    };
+  };
+
+  const send = (message: object) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    } else {
+      handlers.onError("You are not connected to the shared adventure right now. Reconnecting...");
+    }
+  };
+
+  open();
+
+  return {
+    sendAction: (text) => send({ type: 'action', text }),
+    // The host reaches the proxy at its own address, e.g. localhost, so the artwork travels as a path on the proxy
+    shareStory: (story) => send({ type: 'story', story: { ...story, imageUrl: story.imageUrl && toProxyPath(story.imageUrl) } }),
+    finishRound: (ok, notice) => send({ type: 'roundDone', ok, notice }),
+    leave: () => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'leave' }));
+      saveRoomCredentials(null);
+      stop();
+    },
+    close: stop,
+  };
+};
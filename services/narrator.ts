@@ -0,0 +1,209 @@
+import type { Campaign, CheckRequest, CodexCategory, CodexUpdate, ContentRating, GameAIResponse, PlayerCharacter, StoryMemory, StreamHandlers } from '../types';
+import { extractJsonStringField } from './partialJson';
+import { CHECK_DIFFICULTIES, SKILL_DESCRIPTIONS, SKILLS } from './rules';
+import { formatSkillModifier } from './characterService';
+import { MalformedResponseError } from './errors';
+
+// Provider-independent narrator contract: the prompt every storyteller receives and the parsing of its replies
+
+export const CONTENT_RATING_GUIDANCE: Record<ContentRating, string> = {
+  family: "Keep everything suitable for all ages: peril is fine, but no graphic violence, gore, romance or strong language.",
+  teen: "Mild violence, peril and mild language are fine; avoid gore, sexual content and strong profanity.",
+  mature: "Mature themes, violence and strong language are allowed when they serve the story, but avoid gratuitous gore and explicit sexual content.",
+};
+
+// Only the parts of the character the player filled in; the narrator invents the rest
+const describeCharacter = (character: PlayerCharacter): string => {
+  const lines = [
+    character.name && `- Name: ${character.name}`,
+    character.background && `- Background: ${character.background}`,
+    character.appearance && `- Appearance: ${character.appearance}`,
+    character.traits.length > 0 && `- Traits: ${character.traits.join(', ')}`,
+    character.startingGear.length > 0 && `- Starting gear (already in their inventory): ${character.startingGear.join(', ')}`,
+  ].filter(Boolean);
+
+  return lines.length > 0
+    ? `The player character (address them as "you"):\n${lines.join('\n')}\nKeep their identity, appearance and personality consistent, and let their background and traits colour how the world reacts to them.`
+    : 'The player has not described their character; let who they are emerge through play.';
+};
+
+// The narrator picks the skill; the game knows the modifiers and the dice
+const describeSkills = (character: PlayerCharacter): string =>
+  `The player's skills: ${SKILLS.map(skill => `${skill} ${formatSkillModifier(character.skills[skill])} (${SKILL_DESCRIPTIONS[skill]})`).join(', ')}.`;
+
+export const CODEX_CATEGORIES: CodexCategory[] = ['npc', 'place', 'faction', 'item'];
+
+// Older turns are no longer in the narrator's history, so the summary and codex stand in for them
+const describeMemory = (memory: StoryMemory): string => {
+  const sections = [
+    memory.summary && `The story so far (older turns are summarised here and no longer in the conversation):\n${memory.summary}`,
+    memory.codex.length > 0 && `Codex of established people, places, factions and items (treat these facts as canon):\n${memory.codex.map(entry => `- ${entry.name} (${entry.category}): ${entry.description}`).join('\n')}`,
+  ].filter(Boolean);
+  return sections.length > 0 ? `${sections.join('\n\n')}\n\n` : '';
+};
+
+// The narrator prompt for a campaign: its scenario, the player character and what has happened so far, then the fixed turn format every storyteller must follow
+export const buildSystemInstruction = (campaign: Campaign, character: PlayerCharacter, memory?: StoryMemory): string => `You are the narrator and game master of a dynamic text adventure game. Your goal is to create an engaging and evolving story based on the player's actions.
+Campaign:
+- Genre: ${campaign.genre}
+- Premise: ${campaign.premise}
+- Tone: ${campaign.tone}
+- Content rating: ${campaign.contentRating}. ${CONTENT_RATING_GUIDANCE[campaign.contentRating]} This applies to the scene, image prompt, suggested actions and codex alike; when the player attempts something beyond it, steer the story past it instead of describing it.
+Stay true to this genre, premise and tone throughout the adventure.
+
+${describeCharacter(character)}
+${describeSkills(character)}
+
+${memory ? describeMemory(memory) : ''}For each turn, you must:
+1. Describe the current scene or the outcome of the player's action. The description should be immersive and engaging. Use vivid language.
+2. Provide a concise, descriptive prompt (max 15-20 words) suitable for an image generation AI to create a visual for the scene. The prompt should be literal and focus on visual elements, capturing the mood and key details. Do not name an art style; the game adds it. Whenever the player character is visible, refer to them in the image prompt as "the hero" and do not describe their looks; the game adds their appearance.
+3. Report how the player's situation changed this turn as a "stateDelta" object. Only include the fields that changed:
+   - "itemsGained": array of item names the player picked up or received
+   - "itemsLost": array of item names the player used up, dropped or had taken (only items they are actually carrying)
+   - "hpChange": whole number of hit points gained (positive) or lost (negative)
+   - "location": short name of the player's current location, whenever it changes
+   - "questUpdates": array of {"title": string, "status": "active" | "completed" | "failed", "description": string} for new or changed quests
+   Use an empty object {} when nothing changed.
+4. Offer 2-4 short, contextual actions the player could take next as "suggestedActions" (each max 8 words, written as commands like "Pick up the silver key"). Make them meaningfully different from each other.
+5. List any named character, place, faction or notable item that was introduced or revealed something new this turn as "codexUpdates": an array of {"name": string, "category": "npc" | "place" | "faction" | "item", "description": string}, where the description (max 30 words) is everything known about it so far. Use an empty array when there is nothing new.
+6. When the player attempts something whose outcome is uncertain and matters (a dangerous climb, a fight, a bluff), do NOT decide whether it works. Instead add a "check" object {"skill": ${SKILLS.map(skill => `"${skill}"`).join(' | ')}, "difficulty": ${CHECK_DIFFICULTIES.map(difficulty => `"${difficulty}"`).join(' | ')}, "reason": string}, where the reason says what the player attempts (e.g. "climb the crumbling wall"). Describe only the attempt, stopping before the outcome, with an empty stateDelta, suggestedActions and codexUpdates. The game rolls the dice and answers with a [CHECK RESULT] message giving the outcome; your reply to it is a normal turn that narrates exactly that outcome - never a different one - and must not ask for another check. Routine actions need no check, and the opening scene never has one.
+Every player message ends with a [GAME STATE] block containing the player's current hit points, inventory, location and quests as JSON. This state is authoritative: never let the player use items they do not carry, and keep your narration consistent with it.
+In a shared adventure several players act together as the hero's party, and a player message then has one "Name: action" line per player. Narrate every one of those actions, making clear who did what.
+Your ENTIRE response for EACH turn MUST be a single JSON object with five keys: "sceneDescription" (string), "imagePrompt" (string), "stateDelta" (object), "suggestedActions" (array of strings) and "codexUpdates" (array of objects), plus "check" (object) only when you ask for a skill check.
+Do NOT include any other text, greetings, or explanations outside of this JSON structure.
+Example of the format (the content will depend on the campaign):
+{"sceneDescription": "You cautiously open the ancient wooden door. Dust motes dance in the single ray of light piercing the gloom of the chamber beyond. A faint, metallic scent hangs in the air. On a pedestal lies a tarnished silver key.", "imagePrompt": "Ancient wooden door opening into a dark, dusty chamber, single ray of light, silver key on stone pedestal", "stateDelta": {"location": "Dusty Chamber"}, "suggestedActions": ["Take the silver key", "Search the chamber walls", "Close the door and leave"], "codexUpdates": [{"name": "Silver Key", "category": "item", "description": "A tarnished silver key resting on a pedestal in a dusty chamber."}]}
+
+When the game starts (first message is "Start the adventure."), open the story with this hook: ${campaign.openingHook}
+Generate the initial scene and image prompt according to these rules, and use the stateDelta to set the starting location. The hero already carries their starting gear, so do not add it again.`;
+
+const MAX_SUGGESTED_ACTIONS = 4;
+const MAX_CODEX_UPDATES = 10;
+
+// Suggestions are a convenience, so malformed ones are dropped rather than failing the turn
+const parseSuggestedActions = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((action): action is string => typeof action === "string" && action.trim().length > 0)
+    .map(action => action.trim())
+    .slice(0, MAX_SUGGESTED_ACTIONS);
+};
+
+// Codex updates are best effort too; malformed entries are dropped
+const parseCodexUpdates = (value: unknown): CodexUpdate[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is CodexUpdate =>
+      typeof entry === "object" && entry !== null &&
+      typeof entry.name === "string" && entry.name.trim().length > 0 &&
+      CODEX_CATEGORIES.includes(entry.category) &&
+      typeof entry.description === "string")
+    .map(entry => ({ name: entry.name.trim(), category: entry.category, description: entry.description.trim() }))
+    .slice(0, MAX_CODEX_UPDATES);
+};
+
+// A malformed check request is dropped, and the narrator's description stands as the turn
+const parseCheckRequest = (value: unknown): CheckRequest | undefined => {
+  if (typeof value !== "object" || value === null) return undefined;
+  const { skill, difficulty, reason } = value as Record<string, unknown>;
+  if (!SKILLS.includes(skill as CheckRequest['skill']) || !CHECK_DIFFICULTIES.includes(difficulty as CheckRequest['difficulty'])) {
+    return undefined;
+  }
+  return {
+    skill: skill as CheckRequest['skill'],
+    difficulty: difficulty as CheckRequest['difficulty'],
+    reason: typeof reason === "string" && reason.trim() ? reason.trim() : "succeed",
+  };
+};
+
+export const parseNarratorResponse = (responseText: string): GameAIResponse | null => {
+  try {
+    let jsonStr = responseText.trim();
+    const fenceRegex = /^```(?:json)?\s*\n?(.*?)\n?\s*```$/s;
+    const match = jsonStr.match(fenceRegex);
+    if (match && match[1]) {
+      jsonStr = match[1].trim();
+    }
+    const parsed = JSON.parse(jsonStr);
+    // stateDelta is optional here; it is validated against the game state when applied
+    if (parsed.sceneDescription && parsed.imagePrompt) {
+      return {
+        ...parsed,
+        suggestedActions: parseSuggestedActions(parsed.suggestedActions),
+        codexUpdates: parseCodexUpdates(parsed.codexUpdates),
+        check: parseCheckRequest(parsed.check),
+      } as GameAIResponse;
+    }
+    console.warn("Parsed JSON does not match GameAIResponse structure:", parsed);
+    return null;
+  } catch (error) {
+    console.error("Failed to parse narrator response JSON:", error, "Raw response:", responseText);
+    return null;
+  }
+};
+
+// A turn as the narrator would have written it, for putting an edited turn back in the history
+export const formatNarratorReply = (response: GameAIResponse): string => JSON.stringify({
+  sceneDescription: response.sceneDescription,
+  imagePrompt: response.imagePrompt,
+  stateDelta: response.stateDelta,
+  suggestedActions: response.suggestedActions,
+  codexUpdates: response.codexUpdates,
+  ...(response.check && { check: response.check }),
+});
+
+const REPAIR_PROMPT = `Your last reply to the player did not follow the required turn format, so the game could not read it. Rewrite it as the single JSON object described in your instructions, keeping the same story content. Respond with only that JSON object.
+
+Your reply was:
+`;
+
+/**
+ * Parses a narrator reply, asking the storyteller once to rewrite a reply that broke the turn format.
+ * Resolves to the response and the text it was read from, which is what belongs in the history.
+ */
+export const readNarratorTurn = async (
+  responseText: string,
+  repair: (prompt: string) => Promise<string>,
+): Promise<{ text: string; response: GameAIResponse }> => {
+  if (!responseText.trim()) {
+    throw new MalformedResponseError("The storyteller returned an empty reply.");
+  }
+  const response = parseNarratorResponse(responseText);
+  if (response) return { text: responseText, response };
+
+  console.warn("The narrator's reply broke the turn format, asking it to repair it...");
+  const repairedText = await repair(`${REPAIR_PROMPT}${responseText}`);
+  const repaired = parseNarratorResponse(repairedText);
+  if (!repaired) {
+    throw new MalformedResponseError("The storyteller's reply could not be read, even after asking it to repair it.");
+  }
+  return { text: repairedText, response: repaired };
+};
+
+/**
+ * Feeds streamed response text to the stream handlers: the scene text as it grows,
+ * and the image prompt once it is complete. Returns a function that accepts each new chunk.
+ */
+export const createSceneStreamParser = (handlers: StreamHandlers): ((chunk: string) => void) => {
+  let responseText = '';
+  let lastSceneText = '';
+  let imagePromptSent = false;
+
+  return (chunk: string) => {
+    responseText += chunk;
+
+    const scene = extractJsonStringField(responseText, 'sceneDescription');
+    if (scene && scene.value !== lastSceneText) {
+      lastSceneText = scene.value;
+      handlers.onSceneText?.(scene.value);
+    }
+
+    if (!imagePromptSent) {
+      const imagePrompt = extractJsonStringField(responseText, 'imagePrompt');
+      if (imagePrompt?.complete) {
+        imagePromptSent = true;
+        handlers.onImagePrompt?.(imagePrompt.value);
+      }
+    }
+  };
+};
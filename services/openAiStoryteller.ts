@@ -0,0 +1,123 @@
+import type { GameAIResponse, StoryMessage, StorytellerProvider, StreamHandlers, TurnUsage } from '../types';
+import { readNarratorTurn, createSceneStreamParser } from './narrator';
+import { readServerSentEvents } from './sse';
+import { fetchOrThrow, readErrorResponse } from './errors';
+import { addTurnUsage } from './usage';
+
+// Any server speaking the OpenAI chat completions API, e.g. llama.cpp's server or Ollama's /v1 endpoint.
+// The browser calls it directly, so it is meant for self-hosted servers that need no API key.
+export interface OpenAiStorytellerConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+}
+
+const buildMessages = (systemInstruction: string, history: StoryMessage[], message: string) => [
+  { role: 'system', content: systemInstruction },
+  ...history.map(entry => ({ role: entry.role === 'model' ? 'assistant' : 'user', content: entry.text })),
+  { role: 'user', content: message },
+];
+
+const postChatCompletion = async (config: OpenAiStorytellerConfig, systemInstruction: string, history: StoryMessage[], message: string, stream: boolean): Promise<Response> => {
+  const baseUrl = config.baseUrl.replace(/\/$/, '');
+  const response = await fetchOrThrow(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: config.model,
+      messages: buildMessages(systemInstruction, history, message),
+      response_format: { type: "json_object" }, // Request JSON output
+      stream,
+      ...(stream && { stream_options: { include_usage: true } }), // Token counts arrive in the last chunk
+    }),
+  }, `Could not reach the storyteller at ${baseUrl}. Make sure the server is running and allows requests from this page.`);
+
+  if (!response.ok) {
+    throw await readErrorResponse(response, "Storyteller API error");
+  }
+  return response;
+};
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+// Self-hosted servers cost nothing per token, so only tokens and time are metered
+const toTurnUsage = (usage: CompletionUsage | undefined, startedAt: number): TurnUsage => ({
+  inputTokens: usage?.prompt_tokens ?? 0,
+  outputTokens: usage?.completion_tokens ?? 0,
+  latencyMs: Date.now() - startedAt,
+  retries: 0,
+});
+
+// Yields the text of each content delta in a streamed chat completion; servers that report usage send it at the end
+async function* readCompletionStream(response: Response, onUsage: (usage: CompletionUsage) => void): AsyncGenerator<string> {
+  for await (const { data } of readServerSentEvents(response)) {
+    if (data === '[DONE]') return;
+    const chunk = JSON.parse(data);
+    if (chunk.usage) {
+      onUsage(chunk.usage);
+    }
+    const content = chunk.choices?.[0]?.delta?.content;
+    if (typeof content === 'string') {
+      yield content;
+    }
+  }
+}
+
+interface Completion {
+  text: string;
+  usage: TurnUsage;
+}
+
+const completeOnce = async (config: OpenAiStorytellerConfig, systemInstruction: string, prompt: string): Promise<Completion> => {
+  const startedAt = Date.now();
+  const response = await postChatCompletion(config, systemInstruction, [], prompt, false);
+  const data = await response.json();
+  return { text: data.choices?.[0]?.message?.content ?? '', usage: toTurnUsage(data.usage, startedAt) };
+};
+
+export const createOpenAiStoryteller = (config: OpenAiStorytellerConfig): StorytellerProvider => ({
+  name: `${config.model} (${config.baseUrl})`,
+  createSession: (systemInstruction, initialHistory = []) => {
+    const history: StoryMessage[] = [...initialHistory];
+
+    // History only grows on success, so a failed turn can simply be sent again
+    const completeTurn = async (message: string, responseText: string, usage: TurnUsage): Promise<GameAIResponse> => {
+      let repairUsage: TurnUsage | undefined;
+      const { text, response } = await readNarratorTurn(responseText, async (prompt) => {
+        const repair = await completeOnce(config, systemInstruction, prompt);
+        repairUsage = repair.usage;
+        return repair.text;
+      });
+      history.push({ role: 'user', text: message }, { role: 'model', text });
+      return { ...response, model: config.model, usage: addTurnUsage(usage, repairUsage) };
+    };
+
+    return {
+      sendMessage: async (message) => {
+        const startedAt = Date.now();
+        const response = await postChatCompletion(config, systemInstruction, history, message, false);
+        const data = await response.json();
+        return completeTurn(message, data.choices?.[0]?.message?.content ?? '', toTurnUsage(data.usage, startedAt));
+      },
+      streamMessage: async (message, handlers: StreamHandlers = {}) => {
+        const startedAt = Date.now();
+        const response = await postChatCompletion(config, systemInstruction, history, message, true);
+        const parseChunk = createSceneStreamParser(handlers);
+        let responseText = '';
+        let usage: CompletionUsage | undefined;
+        for await (const chunk of readCompletionStream(response, (reported) => { usage = reported; })) {
+          responseText += chunk;
+          parseChunk(chunk);
+        }
+        return completeTurn(message, responseText, toTurnUsage(usage, startedAt));
+      },
+      getHistory: () => [...history],
+      replaceLastReply: async (text) => {
+        history[history.length - 1] = { role: 'model', text };
+      },
+      complete: async (instruction, prompt) => (await completeOnce(config, instruction, prompt)).text,
+    };
+  },
+});
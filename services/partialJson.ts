@@ -0,0 +1,53 @@
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Reads a top-level string field out of a JSON document that may still be arriving.
+ * Returns the text decoded so far and whether its closing quote has been seen,
+ * or null if the field has not started yet.
+ */
+export const extractJsonStringField = (json: string, key: string): { value: string; complete: boolean } | null => {
+  const opening = new RegExp(`"${key}"\\s*:\\s*"`).exec(json);
+  if (!opening) return null;
+
+  let value = '';
+  let index = opening.index + opening[0].length;
+
+  while (index < json.length) {
+    const char = json[index];
+
+    if (char === '"') {
+      return { value, complete: true };
+    }
+
+    if (char !== '\\') {
+      value += char;
+      index++;
+      continue;
+    }
+
+    // Escape sequence - stop if it is cut off mid-stream and wait for more text
+    const escaped = json[index + 1];
+    if (escaped === undefined) break;
+
+    if (escaped === 'u') {
+      const hex = json.slice(index + 2, index + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      index += 6;
+    } else {
+      value += SIMPLE_ESCAPES[escaped] ?? escaped;
+      index += 2;
+    }
+  }
+
+  return { value, complete: false };
+};
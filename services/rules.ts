@@ -0,0 +1,137 @@
+import type { CheckDifficulty, CheckOutcome, CheckRequest, CheckResult, RuleSystem, Skill } from '../types';
+
+// Skill checks: the narrator asks for one, the game rolls it, and the narrator narrates the outcome it is given.
+// Every roll comes from the game's dice seed and the check's number on the branch, so it can be reproduced.
+
+export const SKILLS: Skill[] = ['might', 'agility', 'wits', 'presence'];
+
+export const SKILL_DESCRIPTIONS: Record<Skill, string> = {
+  might: 'strength, fighting and endurance',
+  agility: 'speed, stealth and reflexes',
+  wits: 'perception, knowledge and cunning',
+  presence: 'charm, persuasion and willpower',
+};
+
+export const CHECK_DIFFICULTIES: CheckDifficulty[] = ['easy', 'normal', 'hard'];
+export const RULE_SYSTEMS: RuleSystem[] = ['d20', '2d6', 'percentile'];
+export const DEFAULT_RULE_SYSTEM: RuleSystem = 'd20';
+
+// Skill modifiers a character can have, and how many points they may spend on them in total
+export const MIN_SKILL = -1;
+export const MAX_SKILL = 3;
+export const SKILL_POINTS = 3;
+
+export const RULE_SYSTEM_LABELS: Record<RuleSystem, string> = {
+  d20: 'd20 - roll 1d20 + skill against a difficulty class',
+  '2d6': '2d6 - roll 2d6 + skill: 10+ succeeds, 7-9 succeeds at a cost',
+  percentile: 'Percentile - roll 1d100 under your skill chance',
+};
+
+export const OUTCOME_LABELS: Record<CheckOutcome, string> = {
+  'critical-success': 'Critical success',
+  success: 'Success',
+  partial: 'Partial success',
+  failure: 'Failure',
+  'critical-failure': 'Critical failure',
+};
+
+// What the narrator is told each outcome means
+const OUTCOME_GUIDANCE: Record<CheckOutcome, string> = {
+  'critical-success': 'The attempt succeeds spectacularly and brings an extra benefit.',
+  success: 'The attempt succeeds.',
+  partial: 'The attempt succeeds, but at a real cost or with a new complication.',
+  failure: 'The attempt fails, and the situation gets worse.',
+  'critical-failure': 'The attempt fails badly, with a serious consequence.',
+};
+
+const D20_DIFFICULTY_CLASS: Record<CheckDifficulty, number> = { easy: 10, normal: 15, hard: 20 };
+const TWO_D6_DIFFICULTY_MODIFIER: Record<CheckDifficulty, number> = { easy: 1, normal: 0, hard: -1 };
+const PERCENTILE_DIFFICULTY_MODIFIER: Record<CheckDifficulty, number> = { easy: 20, normal: 0, hard: -20 };
+
+export const createDiceSeed = (): number => Math.floor(Math.random() * 2 ** 32);
+
+// mulberry32, started from the seed mixed with the check's number
+const createRandom = (seed: number, index: number): (() => number) => {
+  let state = (seed ^ Math.imul(index + 1, 0x9e3779b9)) | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+interface Roll {
+  dice: number[];
+  modifier: number;
+  total: number;
+  target: number;
+  outcome: CheckOutcome;
+}
+
+type RollDie = (sides: number) => number;
+
+const ROLLERS: Record<RuleSystem, (rollDie: RollDie, skill: number, difficulty: CheckDifficulty) => Roll> = {
+  // A natural 20 or 1 always succeeds or fails critically
+  d20: (rollDie, skill, difficulty) => {
+    const die = rollDie(20);
+    const total = die + skill;
+    const target = D20_DIFFICULTY_CLASS[difficulty];
+    const outcome = die === 20 ? 'critical-success' : die === 1 ? 'critical-failure' : total >= target ? 'success' : 'failure';
+    return { dice: [die], modifier: skill, total, target, outcome };
+  },
+  // Difficulty shifts the modifier instead of the target; double sixes and double ones are criticals
+  '2d6': (rollDie, skill, difficulty) => {
+    const dice = [rollDie(6), rollDie(6)];
+    const modifier = skill + TWO_D6_DIFFICULTY_MODIFIER[difficulty];
+    const total = dice[0] + dice[1] + modifier;
+    const outcome = dice[0] + dice[1] === 12 ? 'critical-success'
+      : dice[0] + dice[1] === 2 ? 'critical-failure'
+      : total >= 10 ? 'success'
+      : total >= 7 ? 'partial'
+      : 'failure';
+    return { dice, modifier, total, target: 10, outcome };
+  },
+  // Roll under the skill chance; a fifth of it or less is a critical, 96 or more always fumbles
+  percentile: (rollDie, skill, difficulty) => {
+    const die = rollDie(100);
+    const target = Math.min(95, Math.max(5, 50 + skill * 10 + PERCENTILE_DIFFICULTY_MODIFIER[difficulty]));
+    const outcome = die >= 96 ? 'critical-failure'
+      : die <= Math.floor(target / 5) ? 'critical-success'
+      : die <= target ? 'success'
+      : 'failure';
+    return { dice: [die], modifier: 0, total: die, target, outcome };
+  },
+};
+
+/**
+ * Rolls check number `index` of a game (counting from 0 along the branch being played) with its dice seed.
+ * The same seed and index always give the same dice, so rewinding and retrying cannot re-roll a check.
+ */
+export const rollCheck = (
+  system: RuleSystem,
+  seed: number,
+  index: number,
+  request: CheckRequest,
+  skills: Record<Skill, number>,
+): CheckResult => {
+  const random = createRandom(seed, index);
+  const rollDie: RollDie = sides => Math.floor(random() * sides) + 1;
+  return { ...request, system, seed, index, ...ROLLERS[system](rollDie, skills[request.skill] ?? 0, request.difficulty) };
+};
+
+const capitalise = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const formatModifier = (modifier: number): string => modifier < 0 ? ` - ${-modifier}` : modifier > 0 ? ` + ${modifier}` : '';
+
+// One line for the transcript, e.g. "🎲 Agility check (hard, d20): 14 + 2 = 16 against 20 - Failure"
+export const describeCheck = (result: CheckResult): string => {
+  const roll = result.system === 'percentile'
+    ? `rolled ${result.total} against ${result.target}%`
+    : `${result.dice.join(' + ')}${formatModifier(result.modifier)} = ${result.total} against ${result.target}`;
+  return `🎲 ${capitalise(result.skill)} check (${result.difficulty}, ${result.system}): ${roll} - ${OUTCOME_LABELS[result.outcome]}`;
+};
+
+// The message that hands the rolled outcome back to the narrator
+export const formatCheckResultMessage = (result: CheckResult): string =>
+  `[CHECK RESULT] ${capitalise(result.skill)} check (${result.difficulty}) to ${result.reason}. Outcome: ${OUTCOME_LABELS[result.outcome]}. ${OUTCOME_GUIDANCE[result.outcome]} Narrate exactly this outcome of the player's attempt.`;
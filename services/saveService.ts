@@ -0,0 +1,142 @@
+import type { GameTurn, SavedGame, SaveSlotSummary, StoryMessage } from '../types';
+
+const DB_NAME = "simulated-souls";
+const DB_VERSION = 1;
+const SAVES_STORE = "saves";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("Saving is not supported in this browser (IndexedDB is unavailable)."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SAVES_STORE)) {
+        db.createObjectStore(SAVES_STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Failed to open the save database."));
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Wraps a single-request transaction on the saves store in a promise
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(SAVES_STORE, mode);
+    const request = run(transaction.objectStore(SAVES_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error("Save database transaction failed."));
+    transaction.onabort = () => reject(transaction.error ?? new Error("Save database transaction was aborted."));
+  });
+};
+
+const toSummary = (save: SavedGame): SaveSlotSummary => {
+  // Use the most recent scene that actually has artwork as the thumbnail
+  const lastWithImage = [...save.turns].reverse().find(turn => turn.imageUrl);
+  return {
+    id: save.id,
+    name: save.name,
+    savedAt: save.savedAt,
+    turnCount: save.turns.length,
+    thumbnailUrl: lastWithImage?.imageUrl ?? null,
+  };
+};
+
+export const listSaves = async (): Promise<SaveSlotSummary[]> => {
+  const saves = await withStore<SavedGame[]>("readonly", store => store.getAll());
+  return saves.map(toSummary).sort((a, b) => b.savedAt - a.savedAt);
+};
+
+// Saves made before storyteller providers existed hold Gemini-shaped history ({ role, parts: [{ text }] })
+const normalizeHistory = (history: unknown[]): StoryMessage[] =>
+  history.map(entry => {
+    const legacy = entry as { role?: string; text?: string; parts?: { text?: string }[] };
+    return {
+      role: legacy.role === 'model' ? 'model' : 'user',
+      text: legacy.text ?? (legacy.parts ?? []).map(part => part.text ?? '').join(''),
+    };
+  });
+
+export const loadGame = async (id: string): Promise<SavedGame | null> => {
+  const save = await withStore<SavedGame | undefined>("readonly", store => store.get(id));
+  return save ? { ...save, chatHistory: normalizeHistory(save.chatHistory) } : null;
+};
+
+// Proxy image URL -> the same image as a data URL, for the images of the game saved last, so each is fetched once
+let inlinedImages = new Map<string, string>();
+
+const readAsDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error ?? new Error("Could not read the image."));
+  reader.readAsDataURL(blob);
+});
+
+const fetchAsDataUrl = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`The image could not be fetched: ${response.status} ${response.statusText}`);
+  }
+  return readAsDataUrl(await response.blob());
+};
+
+const getTurnImageUrls = (turn: GameTurn): string[] =>
+  [turn.imageUrl, ...(turn.images ?? []).map(image => image.url)].filter((url): url is string => !!url);
+
+const withImageUrls = <T extends GameTurn>(turn: T, inline: (url: string) => string): T => ({
+  ...turn,
+  imageUrl: turn.imageUrl && inline(turn.imageUrl),
+  ...(turn.images && { images: turn.images.map(image => ({ ...image, url: inline(image.url) })) }),
+});
+
+/**
+ * The proxy's image cache evicts old pictures, so a save keeps its own copy of every image as a data URL. An image
+ * that can no longer be fetched keeps its URL rather than failing the save.
+ */
+const inlineImages = async (save: SavedGame): Promise<SavedGame> => {
+  const turns = [...save.turns, ...Object.values(save.timeline?.nodes ?? {})];
+  const urls = new Set(turns.flatMap(getTurnImageUrls).filter(url => !url.startsWith('data:')));
+  const inlined = new Map<string, string>();
+  await Promise.all([...urls].map(async (url) => {
+    try {
+      inlined.set(url, inlinedImages.get(url) ?? await fetchAsDataUrl(url));
+    } catch (error) {
+      console.warn(`Could not keep a copy of ${url} in the save:`, error);
+    }
+  }));
+  inlinedImages = inlined;
+
+  const inline = (url: string) => inlined.get(url) ?? url;
+  return {
+    ...save,
+    turns: save.turns.map(turn => withImageUrls(turn, inline)),
+    ...(save.timeline && {
+      timeline: {
+        ...save.timeline,
+        nodes: Object.fromEntries(Object.entries(save.timeline.nodes).map(([id, node]) => [id, withImageUrls(node, inline)])),
+      },
+    }),
+  };
+};
+
+export const saveGame = async (save: SavedGame): Promise<void> => {
+  const saved = await inlineImages(save);
+  await withStore("readwrite", store => store.put(saved));
+};
+
+export const deleteSave = async (id: string): Promise<void> => {
+  await withStore("readwrite", store => store.delete(id));
+};
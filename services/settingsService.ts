@@ -0,0 +1,32 @@
+import type { GameSettings } from '../types';
+
+const SETTINGS_KEY = "simulated-souls:settings";
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  choicesOnly: false,
+  textOnly: false,
+  modelModeration: false,
+  narration: false,
+  narrationVoice: '',
+  narrationRate: 1,
+  pushToTalk: false,
+};
+
+export const loadSettings = (): GameSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    // Merge over the defaults so settings added later get sensible values
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error("Failed to load settings, using defaults:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: GameSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save settings:", error);
+  }
+};
@@ -0,0 +1,42 @@
+export interface ServerSentEvent {
+  event: string; // "message" when the event has no explicit name
+  data: string;
+}
+
+// Reads a fetch response body as a stream of server-sent events
+export async function* readServerSentEvents(response: Response): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let event = 'message';
+  let dataLines: string[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? ''; // Keep any partial line for the next read
+    for (const rawLine of lines) {
+      const line = rawLine.replace(/\r$/, '');
+      if (line === '') {
+        // A blank line ends the event
+        if (dataLines.length > 0) {
+          yield { event, data: dataLines.join('\n') };
+        }
+        event = 'message';
+        dataLines = [];
+      } else if (line.startsWith('event:')) {
+        event = line.slice('event:'.length).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice('data:'.length).trimStart());
+      }
+    }
+  }
+
+  if (dataLines.length > 0) {
+    yield { event, data: dataLines.join('\n') };
+  }
+}
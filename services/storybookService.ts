@@ -0,0 +1,218 @@
+import type { Storybook, StorybookFormat, StorybookOptions } from '../types';
+import { getCharacterDisplayName } from './characterService';
+import { formatAction, getTurnText } from './timeline';
+import { createZip, type ZipEntry } from './zip';
+
+// Turns a played branch into a shareable storybook: a Markdown bundle, a single-file HTML page or an EPUB
+
+interface StorybookImage {
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+interface StorybookPage {
+  number: number;
+  action: string | null;
+  paragraphs: string[];
+  image: StorybookImage | null;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg', // Placeholder art from the proxy's offline image provider
+};
+
+const encoder = new TextEncoder();
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toBase64 = (data: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const toFileSlug = (title: string): string =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'adventure';
+
+// Works for the data URLs saves keep as well as the proxy's image URLs
+const fetchImage = async (url: string, number: number): Promise<StorybookImage | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    const blob = await response.blob();
+    const mimeType = IMAGE_EXTENSIONS[blob.type] ? blob.type : 'image/png';
+    return {
+      fileName: `turn-${String(number).padStart(3, '0')}.${IMAGE_EXTENSIONS[mimeType]}`,
+      mimeType,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    };
+  } catch (error) {
+    // A missing picture should not stop the rest of the story from exporting
+    console.error(`Could not include the image for turn ${number}:`, error);
+    return null;
+  }
+};
+
+const buildPages = async (book: Storybook, options: StorybookOptions): Promise<StorybookPage[]> =>
+  Promise.all(book.turns.map(async (turn, index) => ({
+    number: index + 1,
+    action: options.includeActions ? turn.action : null,
+    paragraphs: getTurnText(turn).split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean),
+    image: turn.imageUrl ? await fetchImage(turn.imageUrl, index + 1) : null,
+  })));
+
+const describeBook = (book: Storybook): string => {
+  const genre = book.campaign.genre.toLowerCase();
+  return `${/^[aeiou]/.test(genre) ? 'An' : 'A'} ${genre} adventure starring ${getCharacterDisplayName(book.character)}.`;
+};
+
+const buildMarkdown = (book: Storybook, pages: StorybookPage[]): string => {
+  const sections = pages.map(page => [
+    page.action && formatAction(page.action),
+    page.image && `![Scene ${page.number}](images/${page.image.fileName})`,
+    ...page.paragraphs,
+  ].filter(Boolean).join('\n\n'));
+
+  return `# ${book.title}\n\n_${describeBook(book)}_\n\n${sections.join('\n\n---\n\n')}\n`;
+};
+
+// Shared by the HTML page and the EPUB chapter; image sources differ between the two
+const buildPageHtml = (page: StorybookPage, imageSource: (image: StorybookImage) => string): string => [
+  `<section class="page" id="turn-${page.number}">`,
+  page.action && `  <p class="action">&gt; ${escapeHtml(page.action)}</p>`,
+  page.image && `  <img src="${imageSource(page.image)}" alt="Scene ${page.number}"/>`,
+  ...page.paragraphs.map(paragraph => `  <p>${escapeHtml(paragraph)}</p>`),
+  '</section>',
+].filter(Boolean).join('\n');
+
+const STORYBOOK_CSS = `body { font-family: Georgia, serif; max-width: 42em; margin: 0 auto; padding: 1em; line-height: 1.6; color: #222; }
+h1 { text-align: center; }
+.subtitle { text-align: center; font-style: italic; color: #555; }
+.page { margin: 2em 0; }
+.page img { display: block; width: 100%; height: auto; border-radius: 6px; margin: 1em 0; }
+.action { font-style: italic; color: #6b21a8; white-space: pre-line; }`;
+
+const buildHtml = (book: Storybook, pages: StorybookPage[]): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<meta name="viewport" content="width=device-width, initial-scale=1"/>
+<title>${escapeHtml(book.title)}</title>
+<style>
+${STORYBOOK_CSS}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(book.title)}</h1>
+<p class="subtitle">${escapeHtml(describeBook(book))}</p>
+${pages.map(page => buildPageHtml(page, image => `data:${image.mimeType};base64,${toBase64(image.data)}`)).join('\n')}
+</body>
+</html>
+`;
+
+const EPUB_CONTAINER = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+const buildEpubEntries = (book: Storybook, pages: StorybookPage[]): ZipEntry[] => {
+  const images = pages.flatMap(page => page.image ? [page.image] : []);
+  const title = escapeHtml(book.title);
+
+  const chapter = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en">
+<head><title>${title}</title><link rel="stylesheet" href="style.css"/></head>
+<body>
+<h1>${title}</h1>
+<p class="subtitle">${escapeHtml(describeBook(book))}</p>
+${pages.map(page => buildPageHtml(page, image => `images/${image.fileName}`)).join('\n')}
+</body>
+</html>
+`;
+
+  const nav = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en">
+<head><title>${title}</title></head>
+<body>
+<nav epub:type="toc">
+<ol>
+${pages.map(page => `<li><a href="story.xhtml#turn-${page.number}">${page.number === 1 ? 'The beginning' : `Turn ${page.number}`}</a></li>`).join('\n')}
+</ol>
+</nav>
+</body>
+</html>
+`;
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+    <dc:title>${title}</dc:title>
+    <dc:creator>Simulated Souls</dc:creator>
+    <dc:language>en</dc:language>
+    <dc:description>${escapeHtml(describeBook(book))}</dc:description>
+    <meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="story" href="story.xhtml" media-type="application/xhtml+xml"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+${images.map((image, index) => `    <item id="image-${index + 1}" href="images/${image.fileName}" media-type="${image.mimeType}"/>`).join('\n')}
+  </manifest>
+  <spine>
+    <itemref idref="story"/>
+  </spine>
+</package>
+`;
+
+  return [
+    // The mimetype must be the first entry, uncompressed, for readers to recognise the file
+    { name: 'mimetype', data: encoder.encode('application/epub+zip') },
+    { name: 'META-INF/container.xml', data: encoder.encode(EPUB_CONTAINER) },
+    { name: 'OEBPS/content.opf', data: encoder.encode(opf) },
+    { name: 'OEBPS/nav.xhtml', data: encoder.encode(nav) },
+    { name: 'OEBPS/story.xhtml', data: encoder.encode(chapter) },
+    { name: 'OEBPS/style.css', data: encoder.encode(STORYBOOK_CSS) },
+    ...images.map(image => ({ name: `OEBPS/images/${image.fileName}`, data: image.data })),
+  ];
+};
+
+// Builds the storybook file in the requested format, with a suggested file name
+export const exportStorybook = async (
+  book: Storybook,
+  format: StorybookFormat,
+  options: StorybookOptions,
+): Promise<{ blob: Blob; fileName: string }> => {
+  const pages = await buildPages(book, options);
+  const slug = toFileSlug(book.title);
+
+  switch (format) {
+    case 'markdown': {
+      const images = pages.flatMap(page => page.image ? [page.image] : []);
+      const blob = createZip([
+        { name: `${slug}/story.md`, data: encoder.encode(buildMarkdown(book, pages)) },
+        ...images.map(image => ({ name: `${slug}/images/${image.fileName}`, data: image.data })),
+      ]);
+      return { blob, fileName: `${slug}-markdown.zip` };
+    }
+    case 'html':
+      return { blob: new Blob([buildHtml(book, pages)], { type: 'text/html' }), fileName: `${slug}.html` };
+    case 'epub':
+      return { blob: createZip(buildEpubEntries(book, pages)), fileName: `${slug}.epub` };
+  }
+};
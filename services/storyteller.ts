@@ -0,0 +1,26 @@
+import type { StorytellerProvider } from '../types';
+import { createGeminiStoryteller } from './geminiService';
+import { createOpenAiStoryteller } from './openAiStoryteller';
+import { createMockStoryteller } from './mockStoryteller';
+
+// Chosen with STORYTELLER_PROVIDER in .env.local: "gemini" (default), "openai" or "mock"
+const STORYTELLER_PROVIDER = process.env.STORYTELLER_PROVIDER || "gemini";
+
+const createStoryteller = (): StorytellerProvider => {
+  switch (STORYTELLER_PROVIDER) {
+    case "gemini":
+      return createGeminiStoryteller();
+    case "openai":
+      return createOpenAiStoryteller({
+        baseUrl: process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+        model: process.env.OPENAI_MODEL || "llama3.1",
+      });
+    case "mock":
+      return createMockStoryteller();
+    default:
+      console.error(`Unknown STORYTELLER_PROVIDER "${STORYTELLER_PROVIDER}", falling back to Gemini.`);
+      return createGeminiStoryteller();
+  }
+};
+
+export const storyteller: StorytellerProvider = createStoryteller();
@@ -0,0 +1,107 @@
+import type { GameAIResponse, GameState, GameTurn, SceneImage, StoryMessage, StoryTimeline, TurnNode } from '../types';
+import { applyStateDelta } from './gameState';
+import { describeCheck } from './rules';
+
+export const createTimeline = (): StoryTimeline => ({ nodes: {}, currentId: null });
+
+export const createTurnNode = (
+  id: string,
+  parentId: string | null,
+  action: string | null,
+  response: GameAIResponse,
+  gameState: GameState,
+  chatHistory: StoryMessage[],
+): TurnNode => ({
+  id,
+  parentId,
+  action,
+  response,
+  imageUrl: null,
+  chatHistory,
+  gameState,
+  createdAt: Date.now(),
+});
+
+// Adds a turn under its parent and makes it the current turn; siblings are kept as alternate branches
+export const addTurnNode = (timeline: StoryTimeline, node: TurnNode): StoryTimeline => ({
+  nodes: { ...timeline.nodes, [node.id]: node },
+  currentId: node.id,
+});
+
+const updateTurnNode = (timeline: StoryTimeline, id: string, update: (node: TurnNode) => Partial<TurnNode>): StoryTimeline => {
+  const node = timeline.nodes[id];
+  return node ? { ...timeline, nodes: { ...timeline.nodes, [id]: { ...node, ...update(node) } } } : timeline;
+};
+
+// Every image generated for a turn; turns from before the gallery only have the one they showed
+export const getSceneImages = (turn: GameTurn): SceneImage[] => {
+  if (turn.images) return turn.images;
+  if (!turn.imageUrl) return [];
+  return [{ id: 'original', url: turn.imageUrl, params: { prompt: turn.response.imagePrompt, style: '' }, createdAt: 0 }];
+};
+
+// Adds a generated variant to a turn, optionally making it the image the turn shows
+export const addSceneImage = (timeline: StoryTimeline, id: string, image: SceneImage, keep: boolean): StoryTimeline =>
+  updateTurnNode(timeline, id, node => ({
+    images: [...getSceneImages(node), image],
+    imageUrl: keep ? image.url : node.imageUrl,
+  }));
+
+export const keepSceneImage = (timeline: StoryTimeline, id: string, imageId: string): StoryTimeline =>
+  updateTurnNode(timeline, id, node => {
+    const image = getSceneImages(node).find(candidate => candidate.id === imageId);
+    return image ? { imageUrl: image.url } : {};
+  });
+
+// The turns from the opening scene down to the given turn
+export const getTimelinePath = (timeline: StoryTimeline, id: string | null): TurnNode[] => {
+  const path: TurnNode[] = [];
+  let node = id ? timeline.nodes[id] : undefined;
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? timeline.nodes[node.parentId] : undefined;
+  }
+  return path;
+};
+
+export const getChildTurns = (timeline: StoryTimeline, parentId: string | null): TurnNode[] =>
+  Object.values(timeline.nodes)
+    .filter(node => node.parentId === parentId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+// The last turn of every branch, oldest branch first
+export const getBranchTips = (timeline: StoryTimeline): TurnNode[] => {
+  const parentIds = new Set(Object.values(timeline.nodes).map(node => node.parentId));
+  return Object.values(timeline.nodes)
+    .filter(node => !parentIds.has(node.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Rebuilds the scene panel text for a branch, in the same layout the game writes it as turns are played
+// A turn decided by the dice reads as the attempt, then the roll, then the narrated outcome
+export const getTurnText = (turn: GameTurn): string =>
+  turn.check
+    ? `${turn.check.attempt}\n\n${describeCheck(turn.check.result)}\n\n${turn.response.sceneDescription}`
+    : turn.response.sceneDescription;
+
+// A shared adventure's action has a "Name: action" line per player, and each line is quoted on its own
+export const formatAction = (action: string): string => action.split('\n').map(line => `> ${line}`).join('\n');
+
+export const buildTranscript = (path: GameTurn[]): string =>
+  path.map(turn => turn.action ? `\n\n${formatAction(turn.action)}\n\n${getTurnText(turn)}` : getTurnText(turn)).join('');
+
+/**
+ * Turns a save made before branching timelines into a single branch.
+ * Each turn added one user and one model message to the history, and its game state is recovered by replaying the deltas.
+ */
+export const timelineFromTurns = (turns: GameTurn[], chatHistory: StoryMessage[], initialState: GameState, finalState?: GameState): StoryTimeline => {
+  let timeline = createTimeline();
+  let state = initialState;
+  turns.forEach((turn, index) => {
+    state = applyStateDelta(state, turn.response.stateDelta).state;
+    const isLast = index === turns.length - 1;
+    const node = createTurnNode(crypto.randomUUID(), timeline.currentId, turn.action, turn.response, isLast && finalState ? finalState : state, chatHistory.slice(0, (index + 1) * 2));
+    timeline = addTurnNode(timeline, { ...node, imageUrl: turn.imageUrl, createdAt: node.createdAt + index });
+  });
+  return timeline;
+};
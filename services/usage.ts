@@ -0,0 +1,58 @@
+import type { TurnNode, TurnUsage } from '../types';
+
+// What an adventure has cost so far, from the usage the storyteller metered on each turn
+
+// Usage of two narrator calls that together make one turn, e.g. a skill check and its outcome, or a reply and its repair
+export const addTurnUsage = (first?: TurnUsage, second?: TurnUsage): TurnUsage | undefined => {
+  if (!first || !second) return first ?? second;
+  const warnings = [...new Set([...(first.warnings ?? []), ...(second.warnings ?? [])])];
+  return {
+    inputTokens: first.inputTokens + second.inputTokens,
+    outputTokens: first.outputTokens + second.outputTokens,
+    latencyMs: first.latencyMs + second.latencyMs,
+    retries: first.retries + second.retries,
+    estimatedCostUsd: first.estimatedCostUsd !== undefined || second.estimatedCostUsd !== undefined
+      ? (first.estimatedCostUsd ?? 0) + (second.estimatedCostUsd ?? 0)
+      : undefined,
+    ...(warnings.length > 0 && { warnings }),
+  };
+};
+
+export interface AdventureUsage {
+  turns: number;
+  meteredTurns: number; // Turns whose storyteller reported usage; saves from before metering have none
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageTurnMs: number | null;
+  models: Record<string, number>; // Turns narrated by each model
+  images: number;
+  averageImageMs: number | null;
+  estimatedCostUsd: number;
+}
+
+// Sums every turn in the story tree, abandoned branches included - they were paid for too
+export const summarizeAdventureUsage = (nodes: TurnNode[]): AdventureUsage => {
+  const metered = nodes.flatMap(node => node.response.usage ? [node.response.usage] : []);
+  const timedImages = nodes.flatMap(node => node.images ?? []).filter(image => image.waitMs !== undefined);
+  const models: Record<string, number> = {};
+  for (const node of nodes) {
+    if (node.response.model) {
+      models[node.response.model] = (models[node.response.model] ?? 0) + 1;
+    }
+  }
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  return {
+    turns: nodes.length,
+    meteredTurns: metered.length,
+    retries: sum(metered.map(usage => usage.retries)),
+    inputTokens: sum(metered.map(usage => usage.inputTokens)),
+    outputTokens: sum(metered.map(usage => usage.outputTokens)),
+    averageTurnMs: metered.length ? Math.round(sum(metered.map(usage => usage.latencyMs)) / metered.length) : null,
+    models,
+    images: sum(nodes.map(node => node.images?.length ?? (node.imageUrl ? 1 : 0))),
+    averageImageMs: timedImages.length ? Math.round(sum(timedImages.map(image => image.waitMs!)) / timedImages.length) : null,
+    estimatedCostUsd: sum(metered.map(usage => usage.estimatedCostUsd ?? 0)),
+  };
+};
@@ -0,0 +1,229 @@
+import type { NarrationVoice } from '../types';
+import { fetchSpeechVoices, requestSpeech } from './geminiService';
+
+// Voice play: scenes read aloud, and actions spoken instead of typed. Narration uses the browser's speech
+// synthesis or the proxy's text-to-speech engine; listening uses the browser's speech recognition. Whatever
+// a browser lacks simply isn't offered, and the game stays playable as text.
+
+const SERVER_VOICE_PREFIX = 'server:';
+const VOICE_LOAD_TIMEOUT_MS = 2000;
+
+export const isSpeechSynthesisSupported = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Browsers load their voices lazily, so the list can be empty until they announce it changed
+const loadBrowserVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!isSpeechSynthesisSupported()) return Promise.resolve([]);
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => resolve(speechSynthesis.getVoices());
+    speechSynthesis.addEventListener('voiceschanged', done, { once: true });
+    setTimeout(done, VOICE_LOAD_TIMEOUT_MS); // Browsers without voices never announce any
+  });
+};
+
+// Every voice narration can use, the proxy engine's first; an unreachable proxy just leaves the browser's
+export const listNarrationVoices = async (): Promise<NarrationVoice[]> => {
+  const [browserVoices, serverVoices] = await Promise.all([
+    loadBrowserVoices(),
+    fetchSpeechVoices().catch(error => {
+      console.warn("Could not load the proxy's narration voices:", error);
+      return null;
+    }),
+  ]);
+  const server: NarrationVoice[] = !serverVoices
+    ? []
+    : serverVoices.length > 0
+      ? serverVoices.map(name => ({ id: `${SERVER_VOICE_PREFIX}${name}`, name, engine: 'server' }))
+      : [{ id: SERVER_VOICE_PREFIX, name: 'Server default', engine: 'server' }];
+  return [
+    ...server,
+    ...browserVoices.map((voice): NarrationVoice => ({ id: voice.voiceURI, name: `${voice.name} (${voice.lang})`, engine: 'browser' })),
+  ];
+};
+
+// The chosen voice, or the default: the browser's own voice where there is one, else the proxy engine's
+export const pickNarrationVoice = (voices: NarrationVoice[], id: string): NarrationVoice | undefined =>
+  voices.find(voice => voice.id === id) ?? (isSpeechSynthesisSupported() ? undefined : voices.find(voice => voice.engine === 'server'));
+
+export const canNarrate = (voices: NarrationVoice[]): boolean => isSpeechSynthesisSupported() || voices.length > 0;
+
+// Chrome cuts long utterances off part-way, so scenes are spoken a sentence at a time
+const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?\n]+[.!?]+["')\]]*|[^.!?\n]+/g) ?? []).map(sentence => sentence.trim()).filter(Boolean);
+
+export interface SceneNarration {
+  // Resolves once the text has been read, or as soon as it is stopped; rejects when no voice could read it
+  speak: (text: string, voice: NarrationVoice | undefined, rate: number) => Promise<void>;
+  stop: () => void;
+}
+
+const createSceneNarration = (): SceneNarration => {
+  let stopCurrent: () => void = () => {};
+
+  const speakInBrowser = (text: string, voiceId: string | undefined, rate: number): Promise<void> => new Promise((resolve, reject) => {
+    speechSynthesis.cancel();
+    const voice = speechSynthesis.getVoices().find(candidate => candidate.voiceURI === voiceId) ?? null;
+    const sentences = splitSentences(text);
+    if (sentences.length === 0) return resolve();
+
+    stopCurrent = () => {
+      speechSynthesis.cancel();
+      resolve();
+    };
+    sentences.forEach((sentence, index) => {
+      const utterance = new SpeechSynthesisUtterance(sentence);
+      utterance.voice = voice;
+      utterance.rate = rate;
+      utterance.onerror = (event) => {
+        // Cancelling reports the queued sentences as interrupted
+        if (event.error === 'interrupted' || event.error === 'canceled') resolve();
+        else reject(new Error(`Speech synthesis failed: ${event.error}`));
+      };
+      if (index === sentences.length - 1) utterance.onend = () => resolve();
+      speechSynthesis.speak(utterance);
+    });
+  });
+
+  const speakOnServer = async (text: string, voiceName: string, rate: number): Promise<void> => {
+    const controller = new AbortController();
+    let audio: HTMLAudioElement | null = null;
+    let finish = () => {};
+    stopCurrent = () => {
+      controller.abort();
+      audio?.pause();
+      finish();
+    };
+
+    let blob: Blob;
+    try {
+      blob = await requestSpeech(text, voiceName, rate, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      throw error;
+    }
+    const url = URL.createObjectURL(blob);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        finish = resolve;
+        audio = new Audio(url);
+        audio.onended = () => resolve();
+        audio.onerror = () => reject(new Error('The narration audio could not be played.'));
+        audio.play().catch(reject);
+      });
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  const stop = () => {
+    stopCurrent();
+    stopCurrent = () => {};
+  };
+
+  return {
+    speak: async (text, voice, rate) => {
+      stop();
+      if (voice?.engine !== 'server') {
+        if (!isSpeechSynthesisSupported()) throw new Error('This browser cannot read text aloud.');
+        return speakInBrowser(text, voice?.id, rate);
+      }
+      try {
+        await speakOnServer(text, voice.id.slice(SERVER_VOICE_PREFIX.length), rate);
+      } catch (error) {
+        if (!isSpeechSynthesisSupported()) throw error;
+        console.warn("The proxy's narration failed, reading the scene with the browser's voice instead:", error);
+        await speakInBrowser(text, undefined, rate);
+      }
+    },
+    stop,
+  };
+};
+
+// One narration for the whole game: there is one voice, so a new scene always cuts off the last
+export const narration: SceneNarration = createSceneNarration();
+
+// The parts of the Web Speech API's recognition the game uses; TypeScript's DOM types don't include it
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as unknown as { SpeechRecognition?: SpeechRecognitionConstructor; webkitSpeechRecognition?: SpeechRecognitionConstructor };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+export const isSpeechRecognitionSupported = (): boolean => !!getSpeechRecognition();
+
+const RECOGNITION_ERRORS: Record<string, string> = {
+  'no-speech': 'Nothing was heard. Hold the button down while you speak.',
+  'audio-capture': 'No microphone was found.',
+  'not-allowed': 'Microphone access was denied. Allow it in the browser to speak your actions.',
+  'service-not-allowed': 'Microphone access was denied. Allow it in the browser to speak your actions.',
+  network: "The browser's speech recognition needs a network connection.",
+};
+
+export interface PushToTalkHandlers {
+  onTranscript: (text: string) => void;
+  onListeningChange: (listening: boolean) => void;
+  onError: (message: string) => void;
+}
+
+export interface PushToTalk {
+  start: () => void;
+  stop: () => void; // The words heard arrive after stopping, through onTranscript
+}
+
+/**
+ * Listens for as long as the push-to-talk button is held, then hands everything heard to onTranscript.
+ * Returns null when the browser has no speech recognition.
+ */
+export const createPushToTalk = (handlers: PushToTalkHandlers): PushToTalk | null => {
+  const Recognition = getSpeechRecognition();
+  if (!Recognition) return null;
+  let recognition: SpeechRecognitionLike | null = null;
+  let transcript = '';
+
+  return {
+    start: () => {
+      if (recognition) return;
+      narration.stop(); // Or the microphone hears the narrator
+      transcript = '';
+      const current = new Recognition();
+      current.lang = navigator.language;
+      current.continuous = true;
+      current.interimResults = false;
+      current.onresult = (event) => {
+        transcript = Array.from(event.results, result => result[0].transcript).join(' ');
+      };
+      current.onerror = (event) => {
+        if (event.error !== 'aborted') {
+          handlers.onError(RECOGNITION_ERRORS[event.error] ?? `Speech recognition failed: ${event.error}`);
+        }
+      };
+      current.onend = () => {
+        recognition = null;
+        handlers.onListeningChange(false);
+        if (transcript.trim()) handlers.onTranscript(transcript.trim());
+      };
+      try {
+        current.start();
+        recognition = current;
+        handlers.onListeningChange(true);
+      } catch (error) {
+        handlers.onError(`Speech recognition could not start: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+    stop: () => recognition?.stop(),
+  };
+};
@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, expect, test } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { useReplayProxy, type ReplayProxy } from './replayProxy';
+
+// The game played through the UI, with the Gemini storyteller talking to a proxy that replays a tape
+
+// Each test replays its own tape on its own proxy, which is gone before the next one starts
+let proxy: ReplayProxy;
+beforeAll(() => {
+  Element.prototype.scrollTo = () => {}; // Not implemented by jsdom
+});
+afterEach(async () => {
+  cleanup();
+  await proxy.stop();
+});
+
+const SCENE_TIMEOUT = { timeout: 10000 };
+
+test('plays an opening scene and an action through failover, image fallback and reply repair', async () => {
+  proxy = await useReplayProxy('tapes/overloaded-malformed.json');
+  const { default: App } = await import('../App');
+  render(<App />);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Begin Your Adventure' }));
+  expect(await screen.findByText(/Rain hammers the slate roofs of Greyharbour/, {}, SCENE_TIMEOUT)).toBeTruthy();
+  // Cloudflare is rate limited on the tape, so the placeholder provider paints the opening scene
+  const image = await screen.findByRole('img', { name: 'Current game scene' }, SCENE_TIMEOUT);
+  expect(image.getAttribute('src')).toMatch(new RegExp(`^${proxy.url}/api/images/files/[a-f0-9]{64}\\.svg$`));
+
+  fireEvent.change(screen.getByLabelText('Player action input'), { target: { value: 'Follow the lamplighter' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Send Action' }));
+  // The reply on the tape is not JSON, so it is repaired on the model the proxy failed over to
+  expect(await screen.findByText(/The alley narrows to a dead end/, {}, SCENE_TIMEOUT)).toBeTruthy();
+  expect(screen.queryByText(/ominous silence/)).toBeNull();
+});
+
+test('a retried action is written to the transcript and sent to the narrator once', async () => {
+  proxy = await useReplayProxy('test/tapes/action-retry.json', { IMAGE_PROVIDERS: 'placeholder' });
+  const { default: App } = await import('../App');
+  render(<App />);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Begin Your Adventure' }));
+  await screen.findByText(/The ferry bumps against the quay/, {}, SCENE_TIMEOUT);
+
+  fireEvent.change(screen.getByLabelText('Player action input'), { target: { value: 'Climb the harbour steps' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Send Action' }));
+  // Neither the reply nor its repair on the tape is JSON. The retried turn on the tape expects the narrator's history
+  // to hold only the opening, not the failed action and its unreadable reply.
+  fireEvent.click(await screen.findByRole('button', { name: 'Retry this turn' }, SCENE_TIMEOUT));
+
+  const transcript = await screen.findByText(/At the top of the steps a fishwife waves you over/, {}, SCENE_TIMEOUT);
+  expect(transcript.textContent?.match(/> Climb the harbour steps/g)).toHaveLength(1);
+  expect(transcript.textContent).not.toMatch(/ominous silence/);
+});
+
+test("a skill check whose outcome fails is played again from before the attempt", async () => {
+  proxy = await useReplayProxy('test/tapes/check-retry.json', { IMAGE_PROVIDERS: 'placeholder' });
+  const { default: App } = await import('../App');
+  render(<App />);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Begin Your Adventure' }));
+  await screen.findByText(/Waves break against the foot of the sea wall/, {}, SCENE_TIMEOUT);
+
+  fireEvent.change(screen.getByLabelText('Player action input'), { target: { value: 'Climb the sea wall' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Send Action' }));
+  // The attempt asks for a check, and the outcome after the roll can't be read. The retried attempt on the tape
+  // expects the narrator's history to hold only the opening, not the attempt whose check was never resolved.
+  fireEvent.click(await screen.findByRole('button', { name: 'Retry this turn' }, SCENE_TIMEOUT));
+
+  const transcript = await screen.findByText(/You pull yourself over the parapet/, {}, SCENE_TIMEOUT);
+  expect(transcript.textContent?.match(/You reach for the first slick handhold/g)).toHaveLength(1);
+});
+
+test('with strict moderation, a turn is neither shown nor painted before the model has judged it', async () => {
+  proxy = await useReplayProxy('test/tapes/moderation-hold.json', { IMAGE_PROVIDERS: 'placeholder' });
+  localStorage.setItem('simulated-souls:settings', JSON.stringify({ modelModeration: true }));
+  const { default: App } = await import('../App');
+  render(<App />);
+
+  const shown: string[] = [];
+  const observer = new MutationObserver(() => shown.push(document.body.textContent ?? ''));
+  observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+  try {
+    fireEvent.click(screen.getByRole('button', { name: 'Begin Your Adventure' }));
+    // The model check on the tape flags the opening, and the storyteller retells it
+    await screen.findByText(/holding a small cloth bundle/, {}, SCENE_TIMEOUT);
+    await screen.findByRole('img', { name: 'Current game scene' }, SCENE_TIMEOUT);
+  } finally {
+    observer.disconnect();
+    localStorage.clear();
+  }
+  expect(shown.some(text => text.includes('stained cloth'))).toBe(false);
+  const { today } = await (await fetch(`${proxy.url}/api/usage`)).json();
+  expect(today.images).toBe(1); // Only the retold turn's picture
+});
@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+import { useReplayProxy, type ReplayProxy } from './replayProxy';
+
+describe('the shipped overloaded-malformed tape', () => {
+  let proxy: ReplayProxy;
+  beforeAll(async () => { proxy = await useReplayProxy('tapes/overloaded-malformed.json'); });
+  afterAll(() => proxy.stop());
+
+  test('plays through the Gemini storyteller', async () => {
+    const { createGeminiStoryteller, requestImage } = await import('../services/geminiService');
+    const session = createGeminiStoryteller().createSession('Narrate.');
+
+    // The primary model is overloaded, so the proxy fails over and the client sees the fallback narrate
+    const scenes: string[] = [];
+    const opening = await session.streamMessage('Start the adventure.', { onSceneText: (text) => scenes.push(text) });
+    expect(opening.model).toBe('gemini-1.5-flash');
+    expect(opening.sceneDescription).toMatch(/^Rain hammers the slate roofs of Greyharbour/);
+    expect(scenes.length).toBeGreaterThan(1);
+
+    // Cloudflare is rate limited, so the placeholder paints the scene
+    const imageUrl = await requestImage({ prompt: opening.imagePrompt, style: '', seed: 1 }).result;
+    expect(imageUrl).toMatch(new RegExp(`^${proxy.url}/api/images/files/[a-f0-9]{64}\\.svg$`));
+
+    // The next reply is not JSON; the repair goes to the model the session failed over to
+    const next = await session.sendMessage('Follow the lamplighter.');
+    expect(next.model).toBe('gemini-1.5-flash');
+    expect(next.sceneDescription).toMatch(/chalk crescent/);
+    expect(session.getHistory().at(-1)?.text).toContain('chalk crescent');
+  });
+
+  test("shares the proxy's images as paths, which each player resolves against their own proxy URL", async () => {
+    const { resolveProxyUrl, toProxyPath } = await import('../services/geminiService');
+    const path = '/api/images/files/abc.svg';
+    expect(toProxyPath(`${proxy.url}${path}`)).toBe(path);
+    expect(resolveProxyUrl(path)).toBe(`${proxy.url}${path}`);
+
+    // Artwork restored from a save is already inline
+    const inline = 'data:image/svg+xml;base64,PHN2Zy8+';
+    expect(toProxyPath(inline)).toBe(inline);
+    expect(resolveProxyUrl(inline)).toBe(inline);
+  });
+});
+
+describe('proxy errors', () => {
+  let proxy: ReplayProxy;
+  beforeAll(async () => { proxy = await useReplayProxy('test/tapes/backoff.json'); });
+  afterAll(() => proxy.stop());
+
+  test('surface as typed errors after the proxy\'s own retries', async () => {
+    const { createGeminiStoryteller } = await import('../services/geminiService');
+    const session = createGeminiStoryteller().createSession('Narrate.');
+
+    const turn = await session.sendMessage('Open the gate.');
+    expect(turn.sceneDescription).toBe('The gate creaks open.');
+    expect(turn.usage?.retries).toBe(2);
+    expect(turn.usage?.latencyMs).toBeGreaterThanOrEqual(3000); // The backoff, waited out on the proxy's virtual clock
+
+    await expect(session.sendMessage('Go in.')).rejects.toMatchObject({ kind: 'rate-limited', retryAfterSeconds: 37 });
+    await expect(session.sendMessage('Go in.')).rejects.toMatchObject({ kind: 'auth' });
+    // Failed turns never reach the history, so they can be played again
+    expect(session.getHistory()).toHaveLength(2);
+  });
+});
+
+describe('one-off requests', () => {
+  let proxy: ReplayProxy;
+  beforeAll(async () => { proxy = await useReplayProxy('test/tapes/adventure-budget.json', { SESSION_TOKEN_HARD_LIMIT: '400' }); });
+  afterAll(() => proxy.stop());
+
+  test("are metered and budgeted with the story session's adventure", async () => {
+    const { createGeminiStoryteller } = await import('../services/geminiService');
+    const session = createGeminiStoryteller().createSession('Narrate.', [], 'adventure-1');
+
+    await session.sendMessage('Walk on.');
+    // e.g. summarising the story, once the adventure has used up its budget
+    await expect(session.complete('Summarise the story.', 'The road forks.')).rejects.toMatchObject({ kind: 'budget' });
+    const { adventures } = await (await fetch(`${proxy.url}/api/usage`)).json();
+    expect(adventures.map((adventure: { adventureId: string }) => adventure.adventureId)).toEqual(['adventure-1']);
+  });
+});
@@ -0,0 +1,46 @@
+import { expect, test } from 'vitest';
+import type { GameAIResponse, StorytellerSession } from '../types';
+import { changedByModeration, moderateTurn } from '../services/moderation';
+
+// A story session whose moderation check flags any text mentioning the given word
+const judgeFlagging = (word: string) => {
+  const checked: string[] = [];
+  const session: StorytellerSession = {
+    sendMessage: () => { throw new Error('not used'); },
+    streamMessage: () => { throw new Error('not used'); },
+    getHistory: () => [],
+    replaceLastReply: async () => {},
+    complete: async (_instruction, prompt) => {
+      checked.push(prompt);
+      return prompt.includes(word)
+        ? JSON.stringify({ allowed: false, categories: ['graphic-violence'], reason: 'The picture dwells on the wound' })
+        : JSON.stringify({ allowed: true, categories: [] });
+    },
+  };
+  return { session, checked };
+};
+
+const turn: GameAIResponse = {
+  sceneDescription: 'The lighthouse keeper waves you inside out of the rain.',
+  imagePrompt: 'A lighthouse keeper holding a bloodsoaked lantern',
+  suggestedActions: ['Follow the keeper'],
+};
+
+test("sends the turn's image prompt to the model check with its scene", async () => {
+  const { session, checked } = judgeFlagging('bloodsoaked');
+  const moderated = await moderateTurn(turn, 'family', session, true);
+
+  expect(checked[0]).toContain(turn.imagePrompt);
+  expect(moderated.imagePrompt).not.toContain('bloodsoaked');
+  expect(moderated.moderation).toEqual([expect.objectContaining({ content: 'scene', source: 'model', categories: ['graphic-violence'] })]);
+  expect(changedByModeration(moderated.moderation)).toBe(true);
+});
+
+test('records the checks that let a turn through', async () => {
+  const { session } = judgeFlagging('nothing in this turn');
+  const moderated = await moderateTurn(turn, 'family', session, true);
+
+  expect(moderated.sceneDescription).toBe(turn.sceneDescription);
+  expect(moderated.moderation).toEqual([expect.objectContaining({ content: 'scene', verdict: 'allowed', source: 'model' })]);
+  expect(changedByModeration(moderated.moderation)).toBe(false);
+});
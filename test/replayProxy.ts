@@ -0,0 +1,19 @@
+import path from 'path';
+import { vi } from 'vitest';
+import { startReplayProxy } from '../proxy-server/test/replayProxy.js';
+
+export type ReplayProxy = Awaited<ReturnType<typeof startReplayProxy>>;
+
+export const tapePath = (name: string): string => path.join(__dirname, '..', 'proxy-server', name);
+
+/**
+ * Starts a replaying proxy and points the client at it. The services read the proxy's URL when they load,
+ * so modules imported after this (with a dynamic import) talk to this proxy.
+ */
+export const useReplayProxy = async (tape: string, env: Record<string, string> = {}): Promise<ReplayProxy> => {
+  const proxy = await startReplayProxy(tapePath(tape), env);
+  process.env.PROXY_URL = proxy.url;
+  process.env.STORYTELLER_PROVIDER = 'gemini';
+  vi.resetModules();
+  return proxy;
+};
@@ -0,0 +1,34 @@
+import { afterAll, beforeAll, expect, test } from 'vitest';
+import type { GameTurn } from '../types';
+import { DEFAULT_CAMPAIGN } from '../services/campaignService';
+import { createEmptyCharacter } from '../services/characterService';
+import { exportStorybook } from '../services/storybookService';
+import { useReplayProxy, type ReplayProxy } from './replayProxy';
+
+let proxy: ReplayProxy;
+beforeAll(async () => { proxy = await useReplayProxy('tapes/overloaded-malformed.json'); });
+afterAll(() => proxy.stop());
+
+const turn = (sceneDescription: string, imageUrl: string | null): GameTurn => ({
+  action: null,
+  response: { sceneDescription, imagePrompt: '', suggestedActions: [] },
+  imageUrl,
+});
+
+test('exports the pictures it can fetch and leaves out the ones it cannot', async () => {
+  const saved = `data:image/svg+xml;base64,${btoa('<svg xmlns="http://www.w3.org/2000/svg"/>')}`;
+  // An image the proxy's cache has since evicted
+  const evicted = `${proxy.url}/api/images/files/${'0'.repeat(64)}.png`;
+  const book = {
+    title: 'Greyharbour',
+    campaign: DEFAULT_CAMPAIGN,
+    character: createEmptyCharacter(),
+    turns: [turn('The ferry docks.', saved), turn('The alley narrows.', evicted)],
+  };
+
+  const { blob } = await exportStorybook(book, 'html', { includeActions: false });
+  const html = await blob.text();
+  expect(html).toContain('The alley narrows.');
+  expect(html.match(/<img /g)).toHaveLength(1);
+  expect(html).toContain('alt="Scene 1"');
+});
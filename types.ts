@@ -1,7 +1,342 @@
-
 export interface GameAIResponse {
   sceneDescription: string;
   imagePrompt: string;
+  stateDelta?: GameStateDelta;
+  suggestedActions?: string[];
+  codexUpdates?: CodexUpdate[];
+  check?: CheckRequest; // The narrator wants the dice to decide this action; the turn is then narrated from the result
+  model?: string; // Which model narrated the turn; filled in by the storyteller, not by the model itself
+  usage?: TurnUsage; // What the turn cost, where the storyteller meters it
+  moderation?: ModerationDecision[]; // What moderation changed in this turn, if anything
+}
+
+export type ModerationCategory = 'profanity' | 'strong-profanity' | 'graphic-violence' | 'sexual' | 'explicit-sexual' | 'self-harm';
+
+export type ModeratedContent = 'action' | 'scene' | 'image-prompt';
+
+// One moderation check: what was checked, against which rating, and what the game did about it
+export interface ModerationDecision {
+  content: ModeratedContent;
+  rating: ContentRating;
+  verdict: 'allowed' | 'blocked' | 'rewritten' | 'replaced'; // Rewritten by the narrator, or replaced by a safe fallback
+  source: 'rules' | 'model';   // The local keyword rules, or the optional model check
+  categories: ModerationCategory[];
+  reason?: string;
+  at: number;
+}
+
+// Metered cost of one narrator turn
+export interface TurnUsage {
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;         // From sending the action to the full reply, retries included
+  retries: number;           // Extra calls to the model after failed ones, failovers included
+  estimatedCostUsd?: number; // From the proxy's configured prices
+  warnings?: string[];       // Soft usage budgets this turn went past
+}
+
+export interface UsageBudget {
+  soft: number; // Warn from here; 0 for no limit
+  hard: number; // Refuse from here; 0 for no limit
+}
+
+// One UTC day of the proxy's metered usage, all players together
+export interface DailyUsage {
+  date: string;
+  turns: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageTurnMs: number | null;
+  models: Record<string, number>; // Turns narrated by each model
+  images: number;
+  paidImages: number;
+  imageFailures: number;
+  averageImageMs: number | null;
+  imageProviders: Record<string, number>; // Images painted by each provider
+  estimatedCostUsd: number;
+}
+
+// The proxy's usage report (GET /api/usage)
+export interface UsageReport {
+  today: DailyUsage;
+  days: DailyUsage[];
+  budgets: Record<'sessionTokens' | 'dailyTokens' | 'dailyTurns' | 'dailyImages', UsageBudget>;
+  warnings: string[];
+}
+
+export type QuestStatus = 'active' | 'completed' | 'failed';
+
+export interface Quest {
+  title: string;
+  status: QuestStatus;
+  description?: string;
+}
+
+// Client-owned record of the player's situation; the narrator only proposes changes to it
+export interface GameState {
+  hp: number;
+  maxHp: number;
+  inventory: string[];
+  location: string;
+  quests: Quest[];
+}
+
+// Changes the narrator proposes for a turn, validated before being applied to GameState
+export interface GameStateDelta {
+  itemsGained?: string[];
+  itemsLost?: string[];
+  hpChange?: number;
+  location?: string;
+  questUpdates?: Quest[];
+}
+
+export type Skill = 'might' | 'agility' | 'wits' | 'presence';
+export type CheckDifficulty = 'easy' | 'normal' | 'hard';
+export type CheckOutcome = 'critical-success' | 'success' | 'partial' | 'failure' | 'critical-failure';
+export type RuleSystem = 'd20' | '2d6' | 'percentile';
+
+// A skill check the narrator asks for instead of deciding an uncertain action's outcome itself
+export interface CheckRequest {
+  skill: Skill;
+  difficulty: CheckDifficulty;
+  reason: string; // What the player is attempting
+}
+
+// A rolled check; seed and index reproduce the dice
+export interface CheckResult extends CheckRequest {
+  system: RuleSystem;
+  seed: number;
+  index: number;   // How many checks came before it on the branch
+  dice: number[];
+  modifier: number;
+  total: number;
+  target: number;  // Difficulty class, full-success threshold or percentile chance, depending on the system
+  outcome: CheckOutcome;
+}
+
+// A skill check made during a turn: the narrator's description of the attempt, then the roll that decided it
+export interface TurnCheck {
+  attempt: string;
+  result: CheckResult;
+}
+
+export type CodexCategory = 'npc' | 'place' | 'faction' | 'item';
+
+// A named person, place, faction or item the narrator introduced or learned more about this turn
+export interface CodexUpdate {
+  name: string;
+  category: CodexCategory;
+  description: string;
+}
+
+export interface CodexEntry extends CodexUpdate {
+  editedByPlayer?: boolean; // Player corrections are never overwritten by the narrator
+}
+
+// What the narrator remembers beyond the recent turns it still has in its history
+export interface StoryMemory {
+  summary: string;     // Rolling summary of the turns compacted out of the history
+  codex: CodexEntry[];
+}
+
+// Everything sent to the image backend, kept so a scene can be regenerated the same way
+export interface ImageGenerationParams {
+  prompt: string; // As sent, including the hero's appearance
+  style: string;
+  seed?: number;  // Absent in images made before seeds were recorded
+}
+
+export type ImageJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// An image being generated in the background; cancel() drops it once the picture is no longer wanted
+export interface ImageJob<T> {
+  result: Promise<T>;
+  cancel: () => void;
+}
+
+export interface SceneImage {
+  id: string;
+  url: string;
+  params: ImageGenerationParams;
+  createdAt: number;
+  waitMs?: number; // From requesting the picture to receiving it, queueing included
+}
+
+// One exchange with the narrator: the player's action (null for the opening scene) and what came back
+export interface GameTurn {
+  action: string | null;
+  response: GameAIResponse;
+  imageUrl: string | null; // The image the player kept for this turn
+  images?: SceneImage[];   // Every variant generated for this turn; absent in saves made before the gallery existed
+  check?: TurnCheck;       // Present when the dice decided the action; response then holds the narrated outcome
+}
+
+// A turn as stored in the story tree, with everything needed to rewind the game to just after it
+export interface TurnNode extends GameTurn {
+  id: string;
+  parentId: string | null;      // null for the opening scene
+  chatHistory: StoryMessage[];  // Storyteller history snapshot after this turn
+  gameState: GameState;         // Game state after this turn's delta was applied
+  memory?: StoryMemory;         // Summary and codex after this turn; absent in saves made before memory existed
+  createdAt: number;
+}
+
+// Every turn ever played in an adventure; rewinding and trying another action starts a new branch
+export interface StoryTimeline {
+  nodes: Record<string, TurnNode>;
+  currentId: string | null;
+}
+
+// Provider-neutral chat history entry, so saves are not tied to one storyteller backend
+export interface StoryMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface StreamHandlers {
+  onSceneText?: (sceneDescription: string) => void; // Called with the full scene text received so far
+  onImagePrompt?: (imagePrompt: string) => void;    // Called once per attempt, as soon as the prompt is complete
+  onRestart?: () => void;                           // A partially streamed attempt failed and the turn is starting over
+}
+
+// One ongoing conversation with the narrator. A turn that fails rejects with a GameError (services/errors.ts).
+export interface StorytellerSession {
+  sendMessage: (message: string) => Promise<GameAIResponse>;
+  streamMessage: (message: string, handlers?: StreamHandlers) => Promise<GameAIResponse>;
+  getHistory: () => StoryMessage[];
+  replaceLastReply: (text: string) => Promise<void>; // Puts a moderated rewrite in place of the narrator's last reply, which it then never sees again
+  switchModel?: () => Promise<string>; // Moves the session to another model and resolves to its name, where the backend has several
+  complete: (systemInstruction: string, prompt: string) => Promise<string>; // One-off JSON request outside the story, e.g. summarising old turns; the history is left alone
+}
+
+// A narration backend (Gemini, an OpenAI-compatible server, the offline mock...)
+export interface StorytellerProvider {
+  name: string;
+  // adventureId stays the same for a game's every session - new, loaded, rewound or rebuilt - so its usage is metered as one
+  createSession: (systemInstruction: string, history?: StoryMessage[], adventureId?: string) => StorytellerSession;
+}
+
+// Who the player is, created before the adventure starts
+export interface PlayerCharacter {
+  name: string;
+  background: string;
+  appearance: string; // Also folded into image prompts so the hero looks the same from scene to scene
+  traits: string[];
+  startingGear: string[];
+  skills: Record<Skill, number>; // Modifiers added to skill checks
+}
+
+export type ContentRating = 'family' | 'teen' | 'mature';
+
+// A scenario the player picks or writes before starting; drives the narrator prompt and the art style
+export interface Campaign {
+  id: string;
+  name: string;
+  genre: string;
+  premise: string;
+  tone: string;
+  contentRating: ContentRating;
+  artStyle: string;
+  openingHook: string;
+  ruleSystem?: RuleSystem; // Dice used for skill checks; d20 when absent
+  builtIn?: boolean; // Shipped presets can be used and copied but not deleted
+}
+
+// Everything needed to resume an adventure, as persisted in a save slot
+export interface SavedGame {
+  id: string;
+  name: string;
+  savedAt: number;
+  transcript: string;
+  turns: GameTurn[];          // The branch that was being played
+  chatHistory: StoryMessage[];
+  gameState?: GameState; // Absent in saves made before game state tracking existed
+  campaign?: Campaign;    // Absent in saves made before campaigns existed
+  character?: PlayerCharacter; // Absent in saves made before character creation existed
+  timeline?: StoryTimeline;    // Absent in saves made before branching timelines existed
+  memory?: StoryMemory;        // Absent in saves made before long-game memory existed
+  diceSeed?: number;           // Absent in saves made before skill checks existed
+  adventureId?: string;        // Absent in saves made before usage was metered per adventure; the save's id stands in
+}
+
+// Player preferences, persisted in localStorage
+export interface GameSettings {
+  choicesOnly: boolean; // Gamebook-style play: only the narrator's suggested actions can be chosen
+  textOnly: boolean;    // Skip image generation entirely
+  modelModeration: boolean; // Also ask the storyteller to check actions and scenes against the content rating
+  narration: boolean;       // Read each new scene aloud
+  narrationVoice: string;   // A NarrationVoice id; empty for the default voice
+  narrationRate: number;    // Speaking speed, where 1 is normal
+  pushToTalk: boolean;      // Offer a hold-to-speak button for actions
+}
+
+// A voice scenes can be read in: one of the browser's own, or one of the proxy's text-to-speech engine
+export interface NarrationVoice {
+  id: string;
+  name: string;
+  engine: 'browser' | 'server';
+}
+
+// Lightweight view of a save slot for the load menu
+export interface SaveSlotSummary {
+  id: string;
+  name: string;
+  savedAt: number;
+  turnCount: number;
+  thumbnailUrl: string | null;
+}
+
+export type RoundMode = 'turns' | 'simultaneous';
+
+// One player in a shared adventure, as the room reports them
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  connected: boolean;
+  isHost: boolean;
+  submitted: boolean; // Has acted in the current round
+}
+
+export interface RoomRound {
+  number: number;
+  status: 'collecting' | 'narrating';
+  turnPlayerId: string | null; // Whose turn it is in turn order; null in simultaneous rounds
+  deadline: number | null;     // When a simultaneous round closes, once someone has acted
+  actions: { playerId: string; name: string; text: string }[];
+}
+
+// A shared adventure: the host's game narrates the actions every player sends in each round
+export interface RoomState {
+  code: string;
+  mode: RoundMode;
+  roundSeconds: number;
+  players: RoomPlayer[];
+  round: RoomRound;
+}
+
+// What the host shares after every turn, so the other players see the same story
+export interface SharedStory {
+  campaignName: string;
+  transcript: string;
+  imageUrl: string | null; // Sent through the room as a path on the proxy, which each player loads from their own proxy URL
+  suggestedActions: string[];
+  gameState: GameState;
+  character: PlayerCharacter;
+}
+
+export type StorybookFormat = 'markdown' | 'html' | 'epub';
+
+// A played branch of an adventure, ready to be exported as a storybook
+export interface Storybook {
+  title: string;
+  campaign: Campaign;
+  character: PlayerCharacter;
+  turns: GameTurn[];
+}
+
+export interface StorybookOptions {
+  includeActions: boolean; // Show the player's commands between scenes
 }
 
 // Used for parsing the grounding metadata if googleSearch tool was used (not used in this app but good for reference)
@@ -24,3 +359,4 @@ export interface Candidate {
   groundingMetadata?: GroundingMetadata;
   // other candidate fields
 }
+
@@ -5,9 +5,12 @@ export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.CLOUDFLARE_API_KEY': JSON.stringify(env.CLOUDFLARE_API_KEY)
+        // Only non-secret settings belong here: everything in `define` ships in the client bundle.
+        // Provider API keys are read by proxy-server/ instead.
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL),
+        'process.env.STORYTELLER_PROVIDER': JSON.stringify(env.STORYTELLER_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL)
       },
       resolve: {
         alias: {
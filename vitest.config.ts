@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// The client's tests run against the proxy replaying provider tapes, see proxy-server/test/replayProxy.js
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.{ts,tsx}'],
+    testTimeout: 20000,
+    hookTimeout: 20000,
+  },
+});